@@ -1,98 +1,782 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { useConversation } from '@elevenlabs/react';
 import { LiveFeed, LiveFeedHandle } from './components/LiveFeed';
 import { Terminal } from './components/Terminal';
-import { LogEntry, ProcessingState } from './types';
-import { analyzeFrame } from './services/geminiService';
-import { Activity, Square, Play, Cpu, Aperture, Disc, Maximize2, Minimize2 } from 'lucide-react';
+import { FeedSource, FrameBurst, FrameRegion, LabeledImage, LogEntry, Observation, RegionOfInterest, ProcessingState, PromptProfile, RecordedSession, SceneObservation, TranscriptMessage, TriggerRule } from './types';
+import { analyzeFrame, createVisionProvider, resolveVisionProviderConfig } from './services/visionService';
+import { composeSystemInstruction } from './services/visionPrompt';
+import { ChangeGate, createChangeGate, FrameSignature } from './services/changeDetector';
+import { createCaptureScheduler, CycleOutcome } from './services/captureScheduler';
+import { createSessionRecorder, loadSessionEvents } from './services/sessionRecorder';
+import { createReplaySource, ReplaySource } from './services/replaySource';
+import { DEFAULT_CAMERA_SOURCE } from './services/feedSources';
+import { createCustomProfile, getBuiltInProfile } from './services/promptProfiles';
+import { Activity, Square, Play, Cpu, Aperture, Disc, Maximize2, Minimize2, Film, BookOpen, FlaskConical, Brain, Settings, Bell, Crop, ShieldCheck, Gauge, GalleryThumbnails, ScanSearch, Webcam } from 'lucide-react';
 import { Conversation } from './components/Conversation';
+import { SidePanel } from './components/SidePanel';
+import { SessionPanel } from './components/SessionPanel';
+import { SourcePicker } from './components/SourcePicker';
+import { ProfilePanel } from './components/ProfilePanel';
+import { ProbePanel } from './components/ProbePanel';
+import { createProbeSession, ProbeConfig } from './services/probeMode';
+import { createSceneMemory, EMPTY_SCENE_STATE, formatRecentObservations, SceneState } from './services/sceneMemory';
+import { ScenePanel } from './components/ScenePanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { TriggerPanel } from './components/TriggerPanel';
+import { RegionPanel } from './components/RegionPanel';
+import { PrivacyPanel, UploadPreview } from './components/PrivacyPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { DetectionPanel, DetectorStatus } from './components/DetectionPanel';
+import { CameraPanel } from './components/CameraPanel';
+import { CameraTile } from './components/CameraTile';
+import { FrameViewer } from './components/FrameViewer';
+import { KeyEntryModal } from './components/KeyEntryModal';
+import { AppConfig, getConfig, updateConfig, updateConfigSection, useAppConfig } from './services/configStore';
+import { AgentToolHandlers, composeOnDemandInstruction, createAgentTools, cropFrame, describeChangesSince } from './services/agentTools';
+import { BridgePriority, BridgeQueueStats, classifyPriority, createBridgeQueue, EMPTY_BRIDGE_STATS } from './services/bridgeQueue';
+import { createRegion, RegionCrop, shiftIntoCrop } from './services/regions';
+import { createPrivacyFilter, privateZones } from './services/privacyFilter';
+import { CAPTURE_MIME_TYPES, dataUrlBytes, estimateCycle } from './services/captureSettings';
+import { capEntries } from './services/timelineView';
+import { createThumbnail } from './services/thumbnails';
+import { CameraChannel, CameraFeed, createCameraChannel, extraCamerasHeld, labelObservation } from './services/cameras';
+import { createVisionHealth, HEALTHY_STATE, motionObservation, VisionHealthState } from './services/degradedMode';
+import { loadObjectDetector, ObjectDetector } from './services/objectDetector';
+import { createObjectTracker, describeObjects, TrackedObject, TrackEvent, trackEventObservation } from './services/objectTracker';
+import { budgetExceeded, createUsageMeter, UsageTotals } from './services/usageMeter';
+import { BurstFrame, burstImageSizes, composeContactSheet, labelBurstFrames } from './services/burstCapture';
+import { createTriggerEngine, playChime, renderTriggerPrompt, TriggerChannel } from './services/triggers';
+import { ConversationMessagePayload, createTranscriptTracker } from './services/transcript';
+import { clearStoredCredentials, resolveCredentials, saveCredentials, validateGeminiKey } from './services/credentials';
 
-const CAPTURE_INTERVAL_MS = 4000;
+type PanelId = 'sessions' | 'profiles' | 'probe' | 'scene' | 'settings' | 'triggers' | 'regions' | 'privacy' | 'usage' | 'history' | 'detection' | 'cameras';
+
+const updatePromptConfig = (updater: (prompt: AppConfig['prompt']) => Partial<AppConfig['prompt']>) =>
+  updateConfig(config => ({ ...config, prompt: { ...config.prompt, ...updater(config.prompt) } }));
 
 export default function App() {
+  // One metering session per page load, until the user starts a new one.
+  const usageMeterRef = useRef(createUsageMeter());
   const [isActive, setIsActive] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [transcript, setTranscript] = useState<TranscriptMessage[]>([]);
+  const [bridgeStats, setBridgeStats] = useState<BridgeQueueStats>(EMPTY_BRIDGE_STATS);
+  const [triggerLastFired, setTriggerLastFired] = useState<Record<string, Date>>({});
+  const [regionEditKind, setRegionEditKind] = useState<RegionOfInterest['kind'] | null>(null);
+  const [lastUpload, setLastUpload] = useState<UploadPreview | null>(null);
+  const [viewerEntryId, setViewerEntryId] = useState<string | null>(null);
+  const [usageTotals, setUsageTotals] = useState<UsageTotals>(() => usageMeterRef.current.totals());
+  const [trackedObjects, setTrackedObjects] = useState<TrackedObject[]>([]);
+  const [visionHealth, setVisionHealth] = useState<VisionHealthState>(HEALTHY_STATE);
+  const [detector, setDetector] = useState<{ status: DetectorStatus; error: string | null }>({ status: 'off', error: null });
   const [processingState, setProcessingState] = useState<ProcessingState>(ProcessingState.IDLE);
   const [isStreamReady, setIsStreamReady] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [captureIntervalMs, setCaptureIntervalMs] = useState<number | null>(null);
+  const [roundTripMs, setRoundTripMs] = useState<number | null>(null);
+  const [frameAspect, setFrameAspect] = useState<number | null>(null);
+  const [measuredFrameBytes, setMeasuredFrameBytes] = useState<number | null>(null);
+  const [activePanel, setActivePanel] = useState<PanelId | null>(null);
+  const [recordingEnabled, setRecordingEnabled] = useState(false);
+  const [sessionsRefreshToken, setSessionsRefreshToken] = useState(0);
+  const [replay, setReplay] = useState<{ session: RecordedSession; source: ReplaySource } | null>(null);
+  const [replayFrame, setReplayFrame] = useState<string | null>(null);
+  const [feedSource, setFeedSource] = useState<FeedSource>(DEFAULT_CAMERA_SOURCE);
+  const [sceneState, setSceneState] = useState<SceneState>(EMPTY_SCENE_STATE);
+  const [probeCycle, setProbeCycle] = useState(0);
+  const [cameraScenes, setCameraScenes] = useState<Record<string, SceneState>>({});
+  const [credentials, setCredentials] = useState(resolveCredentials);
+  // Prompt up front only when the selected provider cannot work without a browser-held key.
+  const [isKeyEntryOpen, setIsKeyEntryOpen] = useState(() => getConfig().vision.provider === 'gemini' && !resolveCredentials().geminiApiKey);
+
+  const config = useAppConfig();
+  const { changeThreshold, frame: captureFrame, burst: burstSettings } = config.capture;
+  const { profiles } = config.prompt;
+  const triggerRules = config.triggers.rules;
+  const { regions, sendCrops } = config.regions;
+  const privacy = config.privacy;
+  const detection = config.detection;
+  const cameras = config.cameras;
+  // Observations only need a camera label once there is more than one camera to tell apart.
+  const primaryCamera = cameras.extra.some(camera => camera.enabled) ? cameras.primaryName : null;
+  const probeConfig = config.probe;
+  const activeProfile = profiles.find(profile => profile.id === config.prompt.activeProfileId) ?? profiles[0];
   
   const liveFeedRef = useRef<LiveFeedHandle>(null);
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const frameEntries = useMemo(() => logs.filter(entry => entry.type === 'visual' && entry.frames), [logs]);
+  const viewerIndex = viewerEntryId ? frameEntries.findIndex(entry => entry.id === viewerEntryId) : -1;
+  const openEntry = useCallback((entry: LogEntry) => setViewerEntryId(entry.id), []);
   
   const lastSnapshotRef = useRef<string | null>(null);
+  const lastThumbnailRef = useRef<string | null>(null);
   const lastTextDescriptionRef = useRef<string | null>(null);
+  const lastFrameIdRef = useRef<string | null>(null);
+  const replayRef = useRef(replay);
+  replayRef.current = replay;
+
+  // A misconfigured provider is not fatal: the settings panel shows why and the loop refuses to start.
+  const { visionProvider, providerError } = useMemo(() => {
+    try {
+      return { visionProvider: createVisionProvider(resolveVisionProviderConfig(config.vision, credentials)), providerError: null };
+    } catch (error) {
+      return { visionProvider: null, providerError: (error as Error).message };
+    }
+  }, [config.vision, credentials]);
+  const changeGateRef = useRef(createChangeGate());
+  const probeSessionRef = useRef(createProbeSession());
+  const sceneMemoryRef = useRef(createSceneMemory(config.sceneMemory));
+  const transcriptTrackerRef = useRef(createTranscriptTracker());
+  const bridgeQueueRef = useRef(createBridgeQueue(config.bridge));
+  const triggerEngineRef = useRef(createTriggerEngine());
+  // Trigger prompts waiting for the agent to stop speaking, by rule id.
+  const pendingPromptsRef = useRef(new Map<string, { rule: TriggerRule; prompt: string }>());
+  const privacyFilterRef = useRef<ReturnType<typeof createPrivacyFilter> | null>(null);
+  privacyFilterRef.current ??= createPrivacyFilter();
+  const privacyBlockedRef = useRef(false);
+  const objectDetectorRef = useRef<{ modelUrl: string; detector: Promise<ObjectDetector> } | null>(null);
+  const objectTrackerRef = useRef(createObjectTracker());
+  const visionHealthRef = useRef(createVisionHealth());
+  const lastMotionUpdateRef = useRef(0);
+  // Agent tool looks: whether one is in flight, and when the last one answered.
+  const toolLookRef = useRef<{ busy: boolean; at: number; key: string | null; answer: string | null }>({ busy: false, at: 0, key: null, answer: null });
+  // Frames the change gate has skipped in a row.
+  const skippedFramesRef = useRef(0);
+  const cameraChannelsRef = useRef(new Map<string, CameraChannel>());
+
+  // Removed cameras take their diff state and scene memory with them.
+  useEffect(() => {
+    const ids = new Set(cameras.extra.map(camera => camera.id));
+    cameraChannelsRef.current.forEach((_, id) => {
+      if (!ids.has(id)) cameraChannelsRef.current.delete(id);
+    });
+    setCameraScenes(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => ids.has(id))));
+  }, [cameras.extra]);
+
+  // Signatures taken with different regions are not comparable.
+  useEffect(() => {
+    changeGateRef.current.reset();
+  }, [regions]);
+
+  useEffect(() => {
+    if (activePanel !== 'regions') setRegionEditKind(null);
+  }, [activePanel]);
+
+  // A frame encoded with other settings is neither a fair diff reference nor a fair size sample.
+  useEffect(() => {
+    lastSnapshotRef.current = null;
+    lastThumbnailRef.current = null;
+    setMeasuredFrameBytes(null);
+  }, [captureFrame.width, captureFrame.format, captureFrame.quality]);
+
+  const cycleEstimate = useMemo(() => estimateCycle({
+    settings: captureFrame,
+    provider: config.vision.provider,
+    frameAspect,
+    measuredFrameBytes,
+    cropCount: sendCrops ? regions.filter(region => region.kind === 'include').length : 0,
+    extraImages: burstImageSizes(burstSettings, frameAspect),
+    promptChars: composeSystemInstruction(activeProfile).length,
+    maxOutputTokens: activeProfile.maxOutputTokens,
+    intervalMs: isActive && captureIntervalMs !== null ? captureIntervalMs : config.capture.scheduler.baseIntervalMs,
+  }), [captureFrame, burstSettings, config.vision.provider, frameAspect, measuredFrameBytes, sendCrops, regions, activeProfile, isActive, captureIntervalMs, config.capture.scheduler.baseIntervalMs]);
 
-  const addLog = useCallback((message: string, type: LogEntry['type'] = 'info') => {
-    setLogs(prev => [...prev, {
+  const needsGeminiKey = config.vision.provider === 'gemini' && !credentials.geminiApiKey;
+
+  const addLog = useCallback((message: string, type: LogEntry['type'] = 'info', extra?: Partial<LogEntry>) => {
+    setLogs(prev => capEntries([...prev, {
       id: crypto.randomUUID(),
       timestamp: new Date(),
       type,
-      message
-    }]);
+      message,
+      ...extra
+    }], getConfig().timeline.retention));
   }, []);
 
+  const recorder = useMemo(
+    () => createSessionRecorder((error) => addLog(`Recorder Error: ${error.message}`, 'error')),
+    [addLog]
+  );
+
+  // Tools are created once; handlers are swapped in each render so they always see current state.
+  const toolHandlersRef = useRef<AgentToolHandlers | null>(null);
+  const clientTools = useMemo(() => createAgentTools(() => toolHandlersRef.current!), []);
+
+  // Current speaking state for async code; the hook's `isSpeaking` is only as fresh as the last render.
+  const isSpeakingRef = useRef(false);
+
   const conversation = useConversation({
-    onConnect: () => addLog('Voice Link Established.', 'success'),
-    onDisconnect: () => addLog('Voice Link Terminated.', 'info'),
+    clientTools,
+    onModeChange: ({ mode }) => {
+      isSpeakingRef.current = mode === 'speaking';
+    },
+    onConnect: () => {
+      transcriptTrackerRef.current.reset();
+      // Fresh queue (and stats) per voice session, with the current settings.
+      bridgeQueueRef.current = createBridgeQueue(getConfig().bridge);
+      setBridgeStats(EMPTY_BRIDGE_STATS);
+      addLog('Voice Link Established.', 'success');
+    },
+    onDisconnect: () => {
+      isSpeakingRef.current = false;
+      pendingPromptsRef.current.clear();
+      bridgeQueueRef.current.clear();
+      setBridgeStats(bridgeQueueRef.current.stats());
+      addLog('Voice Link Terminated.', 'info');
+    },
     onError: (e) => addLog(`Voice Error: ${e}`, 'error'),
-    onMessage: (msg: any) => {}
+    onMessage: (msg: ConversationMessagePayload) => {
+      if (!msg.message?.trim()) return;
+      const message = transcriptTrackerRef.current.toMessage(msg);
+      setTranscript(prev => capEntries([...prev, message], getConfig().timeline.retention));
+    }
   });
 
-  const performReasoningStep = useCallback(async () => {
-    if (processingState !== ProcessingState.IDLE && processingState !== ProcessingState.ANALYZING) return;
-    if (processingState === ProcessingState.ANALYZING) return;
+  /**
+   * Sends whatever the bridge queue releases, unless the agent is talking.
+   * Called after every enqueue and whenever the agent stops speaking.
+   */
+  const flushBridge = useCallback(async () => {
+    const queue = bridgeQueueRef.current;
+    if (conversation.status !== 'connected' || isSpeakingRef.current) {
+      setBridgeStats(queue.stats());
+      return;
+    }
+    // The agent may start talking mid-drain; whatever is left waits for the next flush.
+    while (!isSpeakingRef.current) {
+      const update = queue.take();
+      if (!update) break;
+      try {
+        await conversation.sendContextualUpdate(update.text);
+        queue.markSent();
+        usageMeterRef.current.recordBridge(true);
+        recorder.recordBridge(update.text, true);
+        transcriptTrackerRef.current.noteContext(update.text);
+        const label = update.count > 1 ? `${update.count} queued updates merged and synced to Agent.` : 'Context synced to Agent.';
+        addLog(update.probe ? `Probed: ${label}` : label, 'bridge', { probe: update.probe });
+      } catch (bridgeError) {
+        console.error("Bridge failure:", bridgeError);
+        queue.markFailed();
+        usageMeterRef.current.recordBridge(false);
+        recorder.recordBridge(update.text, false);
+        addLog('Bridge Sync Failed.', 'error');
+      }
+    }
+    setBridgeStats(queue.stats());
+    setUsageTotals(usageMeterRef.current.totals());
+  }, [conversation, recorder, addLog]);
+
+  /**
+   * Pauses the vision loop once a budget cap is reached. Returns true when
+   * it did, so callers can stop before spending more.
+   */
+  const enforceBudget = useCallback((): boolean => {
+    const reason = budgetExceeded(usageMeterRef.current.totals(), getConfig().usage);
+    if (!reason) return false;
+    setIsActive(false);
+    setReplay(null);
+    setCaptureIntervalMs(null);
+    addLog(`Budget cap reached (${reason}). Vision loop paused.`, 'alert');
+    return true;
+  }, [addLog]);
+
+  /** Queues an update that did not come from the vision model, when the agent is connected. */
+  const notifyAgent = useCallback((text: string, priority: BridgePriority) => {
+    if (conversation.status !== 'connected') return;
+    bridgeQueueRef.current.enqueue({ text, priority, probe: false });
+    flushBridge();
+  }, [conversation, flushBridge]);
+
+  /**
+   * Feeds a vision call's outcome to the health tracker and announces
+   * switches into and out of degraded mode.
+   */
+  const noteVisionHealth = useCallback((observation: Observation) => {
+    const settings = getConfig().degraded;
+    const health = visionHealthRef.current;
+    const transition = health.record(observation, settings);
+    const state = health.state();
+    setVisionHealth(state);
+    if (transition === 'degraded') {
+      addLog(`Vision API unavailable (${state.lastError}) after ${state.failures} failures. Degraded mode: local motion updates only, probing every ${Math.round(settings.probeIntervalMs / 1000)}s.`, 'alert');
+      notifyAgent("[Vision degraded] Detailed camera analysis is unavailable for now. Only rough motion updates will follow until it is back.", 'urgent');
+    } else if (transition === 'recovered') {
+      addLog('Vision API reachable again. Full analysis resumed.', 'success');
+      notifyAgent("[Vision restored] Detailed camera analysis is back.", 'normal');
+    }
+  }, [addLog, notifyAgent]);
+
+  const flushBridgeRef = useRef(flushBridge);
+  flushBridgeRef.current = flushBridge;
 
-    const snapshot = liveFeedRef.current?.getSnapshot();
-    if (!snapshot) return;
+  useEffect(() => {
+    if (!conversation.isSpeaking) flushBridgeRef.current();
+  }, [conversation.isSpeaking, conversation.status]);
+
+  const markTriggerFired = useCallback((ruleId: string, channel: TriggerChannel) => {
+    triggerEngineRef.current.arm(ruleId, channel);
+    setTriggerLastFired(prev => ({ ...prev, [ruleId]: new Date() }));
+  }, []);
+
+  /**
+   * Sends the oldest held trigger prompt, unless the agent is talking.
+   * One per call: the prompt makes the agent speak, and the next one is
+   * sent once it has finished.
+   */
+  const flushTriggerPrompts = useCallback(() => {
+    if (conversation.status !== 'connected' || isSpeakingRef.current) return;
+    const next = pendingPromptsRef.current.values().next();
+    if (next.done) return;
+    const { rule, prompt } = next.value;
+    pendingPromptsRef.current.delete(rule.id);
+    try {
+      conversation.sendUserMessage(prompt);
+      markTriggerFired(rule.id, 'speak');
+      addLog(`Trigger "${rule.name}" prompted the agent.`, 'bridge');
+    } catch (error) {
+      addLog(`Trigger "${rule.name}" failed: ${(error as Error).message}`, 'error');
+    }
+  }, [conversation, addLog, markTriggerFired]);
+
+  const flushTriggerPromptsRef = useRef(flushTriggerPrompts);
+  flushTriggerPromptsRef.current = flushTriggerPrompts;
+
+  useEffect(() => {
+    if (!conversation.isSpeaking) flushTriggerPromptsRef.current();
+  }, [conversation.isSpeaking, conversation.status]);
+
+  const runTriggers = useCallback((observation: SceneObservation) => {
+    triggerEngineRef.current.due(triggerRules, observation).forEach(({ rule, local, speak }) => {
+      if (local) {
+        if (rule.actions.includes('alert')) addLog(`${rule.name}: ${observation.summary}`, 'alert');
+        if (rule.actions.includes('chime')) playChime();
+        markTriggerFired(rule.id, 'local');
+      }
+      if (!speak) return;
+      if (conversation.status !== 'connected') {
+        addLog(`Trigger "${rule.name}" could not prompt the agent: voice link offline.`, 'info');
+        return;
+      }
+      // Held until the agent is quiet; a newer match replaces the held prompt of the same rule.
+      if (isSpeakingRef.current && !pendingPromptsRef.current.has(rule.id)) {
+        addLog(`Agent speaking; trigger "${rule.name}" held.`, 'info');
+      }
+      pendingPromptsRef.current.set(rule.id, { rule, prompt: renderTriggerPrompt(rule, observation) });
+      flushTriggerPrompts();
+    });
+  }, [triggerRules, conversation, addLog, markTriggerFired, flushTriggerPrompts]);
+
+  const resetVisionState = useCallback(() => {
+    lastSnapshotRef.current = null;
+    lastThumbnailRef.current = null;
+    lastTextDescriptionRef.current = null;
+    lastFrameIdRef.current = null;
+    changeGateRef.current.reset();
+    skippedFramesRef.current = 0;
+    sceneMemoryRef.current.reset();
+    setSceneState(EMPTY_SCENE_STATE);
+    cameraChannelsRef.current.clear();
+    setCameraScenes({});
+  }, []);
+
+  /**
+   * Degraded-mode stand-in for a vision call: describes the pixel diff
+   * locally and passes it on at most once per cooldown.
+   */
+  const reportMotion = useCallback((gate: ChangeGate, signature: FrameSignature | null, camera: string | null, objects: TrackedObject[]): CycleOutcome => {
+    const location = signature ? gate.locate(signature) : null;
+    if (signature) gate.commit(signature);
+    const observation = motionObservation(location, objects);
+    addLog(observation.summary, 'visual', { observation, local: true, camera: camera ?? undefined });
+    const now = Date.now();
+    if (now - lastMotionUpdateRef.current >= getConfig().degraded.motionUpdateCooldownMs) {
+      lastMotionUpdateRef.current = now;
+      const text = camera ? labelObservation(camera, observation.summary) : observation.summary;
+      notifyAgent(`[Vision degraded] ${text}`, 'normal');
+    }
+    return 'change';
+  }, [addLog, notifyAgent]);
+
+  /**
+   * Privacy stage: every image that leaves the browser passes through here.
+   * Resolves to null when the frame has to be held back.
+   */
+  const prepareUpload = useCallback(async (snapshot: string, crops: RegionCrop[] = [], burstFrames: BurstFrame[] = []) => {
+    const filter = privacyFilterRef.current!;
+    const frame = await filter.redact(snapshot, privateZones(regions), privacy, captureFrame.quality);
+    if (!frame.image) {
+      if (!privacyBlockedRef.current) addLog(`Privacy filter is holding frames back: ${frame.blockedReason}.`, 'error');
+      privacyBlockedRef.current = true;
+      return null;
+    }
+    privacyBlockedRef.current = false;
+
+    const redactedCrops: LabeledImage[] = [];
+    for (const crop of crops) {
+      const redacted = await filter.redact(crop.image, privateZones(shiftIntoCrop(regions, crop.rect)), privacy, captureFrame.quality);
+      if (redacted.image) redactedCrops.push({ label: crop.label, image: redacted.image });
+    }
+
+    let burst: FrameBurst | null = null;
+    if (burstFrames.length > 0) {
+      const redactedFrames: BurstFrame[] = [];
+      for (const burstFrame of burstFrames) {
+        const redacted = await filter.redact(burstFrame.image, privateZones(regions), privacy, captureFrame.quality);
+        if (redacted.image) redactedFrames.push({ ...burstFrame, image: redacted.image });
+      }
+      const labeled = labelBurstFrames(redactedFrames);
+      if (burstSettings.mode === 'contact-sheet') {
+        // Built from already-redacted tiles, so the sheet needs no pass of its own.
+        const sheet = await composeContactSheet(labeled, CAPTURE_MIME_TYPES[captureFrame.format], captureFrame.quality).catch(() => null);
+        if (sheet) burst = { layout: 'contact-sheet', images: [sheet] };
+      } else if (labeled.length > 0) {
+        burst = { layout: 'frames', images: labeled };
+      }
+    }
+
+    if (privacy.enabled) setLastUpload({ image: frame.image, faces: frame.faces, zones: frame.zones, timestamp: new Date() });
+    return { frame: frame.image, crops: redactedCrops, burst };
+  }, [regions, privacy, captureFrame.quality, captureFrame.format, burstSettings.mode, addLog]);
+
+  const performReasoningStep = useCallback(async (): Promise<CycleOutcome> => {
+    if (processingState !== ProcessingState.IDLE && processingState !== ProcessingState.ANALYZING) return 'error';
+    if (processingState === ProcessingState.ANALYZING) return 'error';
+    if (!visionProvider) return 'error';
+
+    // Frames come from the webcam, or from a recorded session while replaying.
+    const activeReplay = replayRef.current;
+    if (activeReplay && !activeReplay.source.advance()) {
+      addLog(`Replay of "${activeReplay.session.label}" finished.`, 'success');
+      setReplay(null);
+      setIsActive(false);
+      resetVisionState();
+      return 'skipped';
+    }
+    const frameSource = activeReplay ? activeReplay.source : liveFeedRef.current;
+
+    // While degraded, the API is only called when a probe is due; probes skip the gate.
+    const health = visionHealthRef.current;
+    const isHealthProbe = health.probeDue();
+    const isDegraded = health.isDegraded() && !isHealthProbe;
+
+    // Local pixel-diff gate: skip the API call entirely when the scene is static.
+    const signature = frameSource?.getSignature() ?? null;
+    if (signature && !isHealthProbe) {
+      const decision = changeGateRef.current.evaluate(signature, changeThreshold);
+      // Only the switches between skipping and passing are logged, so a static scene does not flood the log.
+      if (!decision.changed) {
+        if (skippedFramesRef.current === 0) addLog(`Frames skipped: ${decision.reason}.`, 'info');
+        skippedFramesRef.current += 1;
+        return 'skipped';
+      }
+      if (skippedFramesRef.current > 0) {
+        addLog(`Change gate passed after ${skippedFramesRef.current} skipped frame${skippedFramesRef.current === 1 ? '' : 's'}: ${decision.reason}.`, 'info');
+        skippedFramesRef.current = 0;
+      }
+    }
+
+    const snapshot = frameSource?.getSnapshot();
+    if (!snapshot) return 'error';
+    if (activeReplay) setReplayFrame(snapshot);
+
+    if (isDegraded) {
+      return reportMotion(changeGateRef.current, signature, activeReplay ? null : primaryCamera, objectTrackerRef.current.objects());
+    }
+
+    // Recorded frames are replayed as captured, so crops only apply to live input.
+    const crops = sendCrops && !activeReplay ? liveFeedRef.current?.getRegionCrops() ?? [] : [];
+    const burstFrames = burstSettings.mode !== 'off' && !activeReplay ? liveFeedRef.current?.takeBurst(burstSettings.frames) ?? [] : [];
+
+    const upload = await prepareUpload(snapshot, crops, burstFrames);
+    if (!upload) return 'skipped';
+    // Sessions store what was actually sent, i.e. the redacted frame.
+    const frameId = recorder.recordFrame(upload.frame);
+    setMeasuredFrameBytes(dataUrlBytes(upload.frame));
 
     setProcessingState(ProcessingState.ANALYZING);
     
+    const probeInstruction = probeSessionRef.current.next(probeConfig);
+    setProbeCycle(probeSessionRef.current.cycle());
+    const isProbe = probeInstruction !== null;
+    if (isProbe) {
+      addLog(`Probe injected on cycle ${probeSessionRef.current.cycle()}.`, 'info', { probe: true });
+    }
+
+    const scene = sceneMemoryRef.current.getState();
+    // Downscaled while the model works; audits show exactly what was sent.
+    const thumbnail = config.timeline.thumbnails ? createThumbnail(upload.frame).catch(() => null) : Promise.resolve(null);
+
     try {
-      const result = await analyzeFrame(
-        snapshot, 
-        lastSnapshotRef.current, 
-        lastTextDescriptionRef.current
-      );
+      const startedAt = performance.now();
+      const observation = await analyzeFrame(visionProvider, {
+        currentFrame: upload.frame,
+        previousFrame: captureFrame.sendPreviousFrame ? lastSnapshotRef.current : null,
+        lastDescription: lastTextDescriptionRef.current,
+        sceneSummary: scene.summary || null,
+        // The latest entry is already sent as lastDescription.
+        recentObservations: formatRecentObservations(scene.recent.slice(0, -1)),
+        regionCrops: upload.crops,
+        burst: upload.burst,
+        // The tracker follows the live feed, not recorded frames.
+        detectedObjects: detection.enabled && detection.groundPrompt && !activeReplay ? describeObjects(objectTrackerRef.current.objects()) : [],
+        profile: activeProfile,
+        extraInstruction: probeInstruction,
+        meter: usageMeterRef.current,
+      });
+      setUsageTotals(usageMeterRef.current.totals());
+      enforceBudget();
+      noteVisionHealth(observation);
+      const latencyMs = Math.round(performance.now() - startedAt);
+      setRoundTripMs(latencyMs);
+      if (frameId) {
+        recorder.recordAnalysis({
+          frameId,
+          previousFrameId: captureFrame.sendPreviousFrame ? lastFrameIdRef.current : null,
+          lastDescription: lastTextDescriptionRef.current,
+          providerId: visionProvider.id,
+          profileId: activeProfile.id,
+          probe: isProbe,
+          observation,
+          latencyMs,
+        });
+      }
+
+      // Errors stay in the log; they must never reach the agent as if the camera saw them.
+      if (observation.kind === 'error') {
+        if (observation.code === 'rate_limited') {
+          addLog('Rate limited by vision provider. Backing off.', 'error');
+          return 'rate_limited';
+        }
+        addLog(`Vision Error (${observation.code}): ${observation.message}`, 'error');
+        return 'error';
+      }
       
-      lastSnapshotRef.current = snapshot;
+      const currentThumbnail = await thumbnail;
+      const frames = currentThumbnail ? {
+        current: currentThumbnail,
+        previous: config.timeline.beforeAfter ? lastThumbnailRef.current ?? undefined : undefined,
+      } : undefined;
+      lastSnapshotRef.current = upload.frame;
+      lastThumbnailRef.current = currentThumbnail;
+      lastFrameIdRef.current = frameId;
+      if (signature) changeGateRef.current.commit(signature);
 
-      if (result.includes("NO_CHANGE") || result.trim().length === 0) {
-        // no-op
+      if (!observation.changed) {
+        return 'no_change';
       } else {
-        lastTextDescriptionRef.current = result;
-        addLog(result, 'visual');
+        lastTextDescriptionRef.current = observation.summary;
+        sceneMemoryRef.current.record(observation);
+        setSceneState(sceneMemoryRef.current.getState());
+        // Replayed frames are not from any of the current cameras.
+        const camera = activeReplay ? null : primaryCamera;
+        const labeled = camera ? { ...observation, summary: labelObservation(camera, observation.summary) } : observation;
+        addLog(observation.summary, 'visual', { observation, probe: isProbe, frames, camera: camera ?? undefined });
         
         if (conversation.status === 'connected') {
-            try {
-                await conversation.sendContextualUpdate(result);
-                addLog('Context synced to Agent.', 'bridge');
-            } catch (bridgeError) {
-                console.error("Bridge failure:", bridgeError);
-                addLog('Bridge Sync Failed.', 'error');
+            const priority = classifyPriority(observation);
+            bridgeQueueRef.current.enqueue({ text: labeled.summary, priority, probe: isProbe });
+            if (isSpeakingRef.current) {
+                addLog(`Agent speaking; ${priority} update held (${bridgeQueueRef.current.depth()} queued).`, 'info');
             }
+            await flushBridge();
         }
+        runTriggers(labeled);
+        return 'change';
       } 
       
     } catch (error) {
       const err = error as Error;
       addLog(`Observer Malfunction: ${err.message}`, 'error');
+      return 'error';
     } finally {
       setProcessingState(ProcessingState.IDLE);
     }
-  }, [addLog, processingState, conversation]);
+  }, [addLog, processingState, conversation, visionProvider, changeThreshold, recorder, resetVisionState, activeProfile, probeConfig, flushBridge, runTriggers, sendCrops, prepareUpload, captureFrame.sendPreviousFrame, burstSettings, enforceBudget, config.timeline.thumbnails, config.timeline.beforeAfter, detection.enabled, detection.groundPrompt, noteVisionHealth, reportMotion, primaryCamera]);
   
+  const isExtraCameraHeld = extraCamerasHeld(privacy, regions);
+
+  /**
+   * One vision cycle for an extra camera. Same pipeline as the main loop,
+   * minus regions, bursts, probes, recording and local detection, against
+   * the camera's own gate and scene memory. Nothing is sent while private
+   * zones are set, since they cannot be applied to this camera.
+   */
+  const analyzeCamera = useCallback(async (camera: CameraFeed, feed: LiveFeedHandle): Promise<CycleOutcome> => {
+    if (!visionProvider) return 'error';
+    let channel = cameraChannelsRef.current.get(camera.id);
+    if (!channel) {
+      channel = createCameraChannel(getConfig().sceneMemory);
+      cameraChannelsRef.current.set(camera.id, channel);
+    }
+
+    if (isExtraCameraHeld) {
+      if (!channel.held) {
+        addLog(`${camera.name}: uploads held. Private zones only cover the main camera, so extra cameras send nothing while zones are set.`, 'alert', { camera: camera.name });
+        channel.held = true;
+      }
+      return 'skipped';
+    }
+    channel.held = false;
+
+    // Skips are not logged per camera; the tile's pulse already shows the loop is alive.
+    const signature = feed.getSignature();
+    if (signature && !channel.gate.evaluate(signature, changeThreshold).changed) return 'skipped';
+
+    if (visionHealthRef.current.isDegraded()) return reportMotion(channel.gate, signature, camera.name, []);
+    if (budgetExceeded(usageMeterRef.current.totals(), getConfig().usage)) return 'skipped';
+
+    const snapshot = feed.getSnapshot();
+    if (!snapshot) return 'error';
+    const redacted = await privacyFilterRef.current!.redact(snapshot, [], privacy, captureFrame.quality);
+    if (!redacted.image) return 'skipped';
+    const upload = redacted.image;
+
+    const scene = channel.memory.getState();
+    const thumbnail = config.timeline.thumbnails ? createThumbnail(upload).catch(() => null) : Promise.resolve(null);
+
+    try {
+      const observation = await analyzeFrame(visionProvider, {
+        currentFrame: upload,
+        previousFrame: captureFrame.sendPreviousFrame ? channel.lastSnapshot : null,
+        lastDescription: channel.lastDescription,
+        sceneSummary: scene.summary || null,
+        recentObservations: formatRecentObservations(scene.recent.slice(0, -1)),
+        profile: activeProfile,
+        meter: usageMeterRef.current,
+      });
+      setUsageTotals(usageMeterRef.current.totals());
+      enforceBudget();
+      noteVisionHealth(observation);
+
+      if (observation.kind === 'error') {
+        addLog(`Vision Error (${observation.code}) on ${camera.name}: ${observation.message}`, 'error', { camera: camera.name });
+        return observation.code === 'rate_limited' ? 'rate_limited' : 'error';
+      }
+
+      const currentThumbnail = await thumbnail;
+      const frames = currentThumbnail ? {
+        current: currentThumbnail,
+        previous: config.timeline.beforeAfter ? channel.lastThumbnail ?? undefined : undefined,
+      } : undefined;
+      channel.lastSnapshot = upload;
+      channel.lastThumbnail = currentThumbnail;
+      if (signature) channel.gate.commit(signature);
+      if (!observation.changed) return 'no_change';
+
+      channel.lastDescription = observation.summary;
+      channel.memory.record(observation);
+      setCameraScenes(prev => ({ ...prev, [camera.id]: channel.memory.getState() }));
+      addLog(observation.summary, 'visual', { observation, frames, camera: camera.name });
+      const labeled = { ...observation, summary: labelObservation(camera.name, observation.summary) };
+      notifyAgent(labeled.summary, classifyPriority(observation));
+      runTriggers(labeled);
+      return 'change';
+    } catch (error) {
+      addLog(`Observer Malfunction on ${camera.name}: ${(error as Error).message}`, 'error', { camera: camera.name });
+      return 'error';
+    }
+  }, [visionProvider, isExtraCameraHeld, changeThreshold, reportMotion, privacy, captureFrame.quality, captureFrame.sendPreviousFrame, config.timeline.thumbnails, config.timeline.beforeAfter, activeProfile, enforceBudget, noteVisionHealth, addLog, notifyAgent, runTriggers]);
+
   const reasoningStepRef = useRef(performReasoningStep);
 
+  /**
+   * Out-of-band capture for agent tool calls. Bypasses the change gate and
+   * scheduler, and leaves the loop's diff state and scene memory untouched.
+   * One look at a time, at most one per minimum loop interval, so an agent
+   * calling tools in a loop cannot outspend the budget caps.
+   */
+  const inspectFrame = async (tool: string, question: string | null, region?: { rect: FrameRegion; label: string }) => {
+    if (!visionProvider) return `Vision is unavailable: ${providerError}`;
+    if (budgetExceeded(usageMeterRef.current.totals(), config.usage)) return "The vision budget for this session is used up, so nothing can be looked at right now.";
+    if (visionHealthRef.current.isDegraded()) return `Detailed vision is unavailable right now (${visionHealthRef.current.state().lastError}); only rough motion is being tracked.`;
+    const lastLook = toolLookRef.current;
+    if (lastLook.busy) return "Already looking; wait for that answer before asking again.";
+    const key = JSON.stringify([tool, question, region?.label ?? null]);
+    const sinceLastMs = Date.now() - lastLook.at;
+    if (sinceLastMs < config.capture.scheduler.minIntervalMs) {
+      const ago = `${(sinceLastMs / 1000).toFixed(1)}s ago`;
+      return lastLook.key === key
+        ? `Looked ${ago} and saw: ${lastLook.answer} Ask again in a moment for a fresh look.`
+        : `Last look was ${ago}; ask again in a moment.`;
+    }
+    lastLook.busy = true;
+    try {
+      const answer = await lookAtFrame(tool, question, region);
+      toolLookRef.current = { busy: false, at: Date.now(), key, answer };
+      return answer;
+    } finally {
+      toolLookRef.current.busy = false;
+    }
+  };
+
+  const lookAtFrame = async (tool: string, question: string | null, region?: { rect: FrameRegion; label: string }) => {
+    if (!visionProvider) return `Vision is unavailable: ${providerError}`;
+    const frameSource = replayRef.current ? replayRef.current.source : liveFeedRef.current;
+    const snapshot = frameSource?.getSnapshot() ?? null;
+    if (!snapshot) return "The camera is not running, so nothing can be seen right now.";
+    const upload = await prepareUpload(snapshot);
+    if (!upload) return "The privacy filter is holding frames back, so nothing can be shared right now.";
+    const image = region ? await cropFrame(upload.frame, region.rect) : upload.frame;
+
+    const scene = sceneMemoryRef.current.getState();
+    const observation = await analyzeFrame(visionProvider, {
+      currentFrame: image,
+      previousFrame: null,
+      lastDescription: null,
+      sceneSummary: scene.summary || null,
+      recentObservations: formatRecentObservations(scene.recent),
+      detectedObjects: detection.enabled && detection.groundPrompt && !replayRef.current && !region ? describeObjects(objectTrackerRef.current.objects()) : [],
+      profile: activeProfile,
+      extraInstruction: composeOnDemandInstruction(question, region?.label ?? null),
+      meter: usageMeterRef.current,
+    });
+    setUsageTotals(usageMeterRef.current.totals());
+    enforceBudget();
+    noteVisionHealth(observation);
+    if (observation.kind === 'error') {
+      addLog(`Vision Error (${observation.code}) during ${tool}: ${observation.message}`, 'error', { tool });
+      return `The vision system failed to look (${observation.code}).`;
+    }
+    const answer = observation.changed ? observation.summary : "Nothing notable is visible.";
+    const thumbnail = config.timeline.thumbnails ? await createThumbnail(image).catch(() => null) : null;
+    addLog(answer, 'visual', { observation: observation.changed ? observation : undefined, tool, frames: thumbnail ? { current: thumbnail } : undefined });
+    transcriptTrackerRef.current.noteContext(`${tool}: ${answer}`);
+    return answer;
+  };
+
+  toolHandlersRef.current = {
+    lookNow: (question) => inspectFrame('look_now', question),
+    describeRegion: (rect, label, question) => inspectFrame('describe_region', question, { rect, label }),
+    whatChangedSince: (since) => describeChangesSince(sceneMemoryRef.current.getState(), since),
+    onInvoke: (tool, parameters) => {
+      const args = Object.keys(parameters).length > 0 ? ` ${JSON.stringify(parameters)}` : '';
+      addLog(`Agent called ${tool}${args}.`, 'bridge', { tool });
+    },
+  };
+
   useEffect(() => {
     reasoningStepRef.current = performReasoningStep;
   }, [performReasoningStep]);
 
   const toggleVisualSystem = () => {
+    if (!isActive && !visionProvider) {
+      addLog(`Vision provider unavailable: ${providerError}`, 'error');
+      if (needsGeminiKey) setIsKeyEntryOpen(true);
+      else setActivePanel('settings');
+      return;
+    }
+    if (!isActive && budgetExceeded(usageMeterRef.current.totals(), config.usage)) {
+      addLog('Budget cap reached. Raise the cap or start a new usage session to resume.', 'alert');
+      setActivePanel('usage');
+      return;
+    }
     if (isActive) {
       setIsActive(false);
+      setReplay(null);
       setProcessingState(ProcessingState.IDLE);
-      lastSnapshotRef.current = null;
-      lastTextDescriptionRef.current = null;
+      resetVisionState();
+      setCaptureIntervalMs(null);
+      setRoundTripMs(null);
       addLog("Visual Cortex Deactivated.", 'info');
     } else {
       setIsActive(true);
@@ -100,28 +784,366 @@ export default function App() {
     }
   };
 
+  const changeFeedSource = (source: FeedSource) => {
+    setFeedSource(source);
+    resetVisionState();
+    addLog(`Optical input switched to ${source.label}.`, 'info');
+  };
+
+  const selectProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile || profile.id === activeProfile.id) return;
+    updateConfigSection('prompt', { activeProfileId: id });
+    addLog(`Prompt profile: ${profile.name}.`, 'info');
+  };
+
+  const saveProfile = (profile: PromptProfile) => {
+    updatePromptConfig(prompt => ({ profiles: prompt.profiles.map(p => p.id === profile.id ? profile : p) }));
+    addLog(`Prompt profile "${profile.name}" saved.`, 'info');
+  };
+
+  const duplicateProfile = (profile: PromptProfile) => {
+    const copy = createCustomProfile(profile);
+    updatePromptConfig(prompt => ({ profiles: [...prompt.profiles, copy], activeProfileId: copy.id }));
+  };
+
+  const deleteProfile = (id: string) => {
+    updatePromptConfig(prompt => {
+      const remaining = prompt.profiles.filter(p => p.id !== id || p.builtIn);
+      const activeProfileId = id === prompt.activeProfileId ? remaining.find(p => p.builtIn)?.id ?? remaining[0].id : prompt.activeProfileId;
+      return { profiles: remaining, activeProfileId };
+    });
+  };
+
+  const resetProfile = (id: string) => {
+    const builtIn = getBuiltInProfile(id);
+    if (builtIn) updatePromptConfig(prompt => ({ profiles: prompt.profiles.map(p => p.id === id ? builtIn : p) }));
+  };
+
+  const confirmCredentials = async (apiKey: string, agentId: string) => {
+    const error = await validateGeminiKey(apiKey);
+    if (error) return error;
+    saveCredentials({ geminiApiKey: apiKey, agentId });
+    setCredentials(resolveCredentials());
+    setIsKeyEntryOpen(false);
+    addLog('Credentials verified and stored in this browser.', 'success');
+    return null;
+  };
+
+  const clearCredentials = () => {
+    clearStoredCredentials();
+    setCredentials(resolveCredentials());
+    addLog('Stored credentials cleared.', 'info');
+  };
+
+  const saveVisionApiKey = (visionApiKey: string) => {
+    saveCredentials({ visionApiKey });
+    setCredentials(resolveCredentials());
+  };
+
+  const addRegion = (kind: RegionOfInterest['kind'], rect: FrameRegion) => {
+    updateConfig(c => ({
+      ...c,
+      regions: { ...c.regions, regions: [...c.regions.regions, createRegion(kind, rect, c.regions.regions)] },
+    }));
+  };
+
+  const startReplay = async (session: RecordedSession) => {
+    try {
+      const source = await createReplaySource(await loadSessionEvents(session.id));
+      resetVisionState();
+      setReplayFrame(null);
+      setReplay({ session, source });
+      setIsActive(true);
+      addLog(`Replaying "${session.label}" (${source.total} frames) through the vision loop.`, 'info');
+    } catch (error) {
+      addLog(`Replay failed: ${(error as Error).message}`, 'error');
+    }
+  };
+
+  const stopReplay = () => {
+    setReplay(null);
+    setIsActive(false);
+    resetVisionState();
+    addLog("Replay stopped.", 'info');
+  };
+
+  const isLoopRunning = isActive && (isStreamReady || replay !== null);
+
   useEffect(() => {
-    if (isActive && isStreamReady) {
-      addLog(`Vision Loop active. Interval: ${CAPTURE_INTERVAL_MS}ms`, 'success');
-      reasoningStepRef.current(); 
-      intervalRef.current = setInterval(() => {
-        reasoningStepRef.current();
-      }, CAPTURE_INTERVAL_MS);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+    if (!recordingEnabled || !isLoopRunning || !visionProvider) return;
+    const session = recorder.start(`${replay ? 'Replay' : 'Live'} · ${visionProvider.label}`);
+    addLog(`Recording session ${session.id.slice(0, 8)}.`, 'info');
+    setSessionsRefreshToken(n => n + 1);
+    return () => {
+      lastFrameIdRef.current = null;
+      recorder.stop().then(() => setSessionsRefreshToken(n => n + 1));
+    };
+  }, [recordingEnabled, isLoopRunning, replay, recorder, visionProvider, addLog]);
+
+  /**
+   * Tracker events take the same route as model observations (log, voice
+   * bridge, triggers) but stay out of scene memory, which is the model's.
+   * They always queue as minor updates, so a burst of them is coalesced
+   * into one catch-up summary instead of interrupting the agent.
+   */
+  const handleTrackEvent = useCallback((event: TrackEvent) => {
+    const observation = trackEventObservation(event);
+    const labeled = primaryCamera ? { ...observation, summary: labelObservation(primaryCamera, observation.summary) } : observation;
+    addLog(observation.summary, 'visual', { observation, local: true, camera: primaryCamera ?? undefined });
+    notifyAgent(`[local detector] ${labeled.summary}`, 'normal');
+    runTriggers(labeled);
+  }, [addLog, notifyAgent, runTriggers, primaryCamera]);
+
+  const handleTrackEventRef = useRef(handleTrackEvent);
+  handleTrackEventRef.current = handleTrackEvent;
+
+  const isDetecting = detection.enabled && isActive && isStreamReady && !replay;
+
+  // On-device detection runs on its own timer, so objects keep being tracked
+  // while the vision model is slow, rate limited or failing.
+  useEffect(() => {
+    if (!isDetecting) {
+      setDetector({ status: 'off', error: null });
+      return;
     }
+    const modelUrl = detection.modelUrl;
+    const tracker = objectTrackerRef.current;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    // The model is kept across restarts and only reloaded for another URL.
+    const previous = objectDetectorRef.current;
+    if (!previous || previous.modelUrl !== modelUrl) {
+      previous?.detector.then(model => model.dispose()).catch(() => {});
+      objectDetectorRef.current = { modelUrl, detector: loadObjectDetector(modelUrl) };
+    }
+    const loading = objectDetectorRef.current!;
+
+    const tick = async (model: ObjectDetector) => {
+      // Tuning is read per pass, so changing it does not restart tracking.
+      const { minScore, intervalMs, localEvents } = getConfig().detection;
+      const frame = liveFeedRef.current?.getDetectionFrame();
+      if (frame) {
+        try {
+          const detections = await model.detect(frame, minScore);
+          if (cancelled) return;
+          const { objects, events } = tracker.update(detections);
+          setTrackedObjects(objects);
+          if (localEvents) events.forEach(event => handleTrackEventRef.current(event));
+        } catch (error) {
+          console.warn("Object detection failed:", error);
+        }
+      }
+      if (!cancelled) timer = setTimeout(() => tick(model), intervalMs);
+    };
+
+    setDetector({ status: 'loading', error: null });
+    loading.detector.then(
+      model => {
+        if (cancelled) return;
+        setDetector({ status: 'ready', error: null });
+        addLog('Object detector running on this device.', 'info');
+        tick(model);
+      },
+      error => {
+        if (objectDetectorRef.current === loading) objectDetectorRef.current = null;
+        if (cancelled) return;
+        setDetector({ status: 'error', error: (error as Error).message });
+        addLog(`Object detector failed to load: ${(error as Error).message}`, 'error');
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      tracker.reset();
+      setTrackedObjects([]);
+    };
+  }, [isDetecting, detection.modelUrl, addLog]);
+
+  // Self-scheduling loop: the next capture is only planned once the previous
+  // cycle has finished, so slow API calls never overlap.
+  useEffect(() => {
+    if (!isLoopRunning || !visionProvider) return;
+
+    // Pick up tuning changes from the settings panel on every (re)start.
+    const { capture, sceneMemory } = getConfig();
+    const scheduler = createCaptureScheduler(capture.scheduler);
+    probeSessionRef.current = createProbeSession();
+    setProbeCycle(0);
+    sceneMemoryRef.current = createSceneMemory(sceneMemory);
+    visionHealthRef.current.reset();
+    setVisionHealth(HEALTHY_STATE);
+    lastMotionUpdateRef.current = 0;
+    skippedFramesRef.current = 0;
+    setSceneState(EMPTY_SCENE_STATE);
+    cameraChannelsRef.current.clear();
+    setCameraScenes({});
+    addLog(`Vision Loop active. Provider: ${visionProvider.label}. Interval: ${scheduler.current()}ms (adaptive)`, 'success');
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const tick = async () => {
+      const outcome = await reasoningStepRef.current();
+      if (cancelled) return;
+      const delay = scheduler.next(outcome);
+      setCaptureIntervalMs(delay);
+      timer = setTimeout(tick, delay);
+    };
+    tick();
+
     return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current);
+      cancelled = true;
+      if (timer) clearTimeout(timer);
     };
-  }, [isActive, isStreamReady, addLog]);
+  }, [isLoopRunning, replay, addLog, visionProvider]);
 
   return (
     <div className="h-screen w-screen bg-ikea-base text-ikea-text flex flex-col font-sans overflow-hidden">
       
-      <Conversation conversation={conversation} agentId={process.env.AGENT_ID || localStorage.getItem('AGENT_ID') || ''} />
+      <Conversation
+          conversation={conversation}
+          agentId={credentials.agentId}
+          proxyUrl={config.vision.proxyUrl || undefined}
+      />
+
+      {isKeyEntryOpen && (
+          <KeyEntryModal
+              onConfirm={confirmCredentials}
+              onCancel={() => {
+                  setIsKeyEntryOpen(false);
+                  if (needsGeminiKey) setActivePanel('settings');
+              }}
+              initialApiKey={credentials.geminiApiKeySource === 'storage' ? credentials.geminiApiKey : ''}
+              initialAgentId={credentials.agentId}
+          />
+      )}
+
+      <SidePanel title="Settings" isOpen={activePanel === 'settings'} onClose={() => setActivePanel(null)}>
+          <SettingsPanel
+              config={config}
+              credentials={credentials}
+              providerError={providerError}
+              onRotateCredentials={() => setIsKeyEntryOpen(true)}
+              onClearCredentials={clearCredentials}
+              onTestGeminiKey={() => validateGeminiKey(credentials.geminiApiKey)}
+              onSaveVisionApiKey={saveVisionApiKey}
+              cycleEstimate={cycleEstimate}
+          />
+      </SidePanel>
+
+      <SidePanel title="Sessions" isOpen={activePanel === 'sessions'} onClose={() => setActivePanel(null)}>
+          <SessionPanel
+              recordingEnabled={recordingEnabled}
+              onToggleRecording={() => setRecordingEnabled(!recordingEnabled)}
+              replayingSessionId={replay?.session.id ?? null}
+              onReplay={startReplay}
+              onStopReplay={stopReplay}
+              refreshToken={sessionsRefreshToken}
+          />
+      </SidePanel>
+
+      <SidePanel title="Triggers" isOpen={activePanel === 'triggers'} onClose={() => setActivePanel(null)}>
+          <TriggerPanel
+              rules={triggerRules}
+              onChange={(rules: TriggerRule[]) => updateConfigSection('triggers', { rules })}
+              lastFired={triggerLastFired}
+              isVoiceConnected={conversation.status === 'connected'}
+          />
+      </SidePanel>
+
+      <SidePanel title="Regions & Masks" isOpen={activePanel === 'regions'} onClose={() => setActivePanel(null)}>
+          <RegionPanel
+              settings={config.regions}
+              onChange={(patch) => updateConfigSection('regions', patch)}
+              editKind={regionEditKind}
+              onEditKindChange={setRegionEditKind}
+              isFeedLive={isActive && isStreamReady && !replay}
+          />
+      </SidePanel>
+
+      {viewerIndex !== -1 && (
+          <FrameViewer
+              entries={frameEntries}
+              index={viewerIndex}
+              onNavigate={(index) => setViewerEntryId(frameEntries[index]?.id ?? null)}
+              onClose={() => setViewerEntryId(null)}
+          />
+      )}
+
+      <SidePanel title="Observation History" isOpen={activePanel === 'history'} onClose={() => setActivePanel(null)}>
+          <HistoryPanel entries={frameEntries} onOpen={openEntry} thumbnailsEnabled={config.timeline.thumbnails} />
+      </SidePanel>
+
+      <SidePanel title="Object Detection" isOpen={activePanel === 'detection'} onClose={() => setActivePanel(null)}>
+          <DetectionPanel
+              settings={detection}
+              onChange={(patch) => updateConfigSection('detection', patch)}
+              status={detector.status}
+              error={detector.error}
+              objects={trackedObjects}
+              isFeedLive={isActive && isStreamReady && !replay}
+          />
+      </SidePanel>
+
+      <SidePanel title="Usage & Budget" isOpen={activePanel === 'usage'} onClose={() => setActivePanel(null)}>
+          <UsagePanel
+              totals={usageTotals}
+              settings={config.usage}
+              onChange={(patch) => updateConfigSection('usage', patch)}
+              onReset={() => {
+                  usageMeterRef.current.reset();
+                  setUsageTotals(usageMeterRef.current.totals());
+                  addLog('Usage metering restarted.', 'info');
+              }}
+          />
+      </SidePanel>
+
+      <SidePanel title="Privacy Filter" isOpen={activePanel === 'privacy'} onClose={() => setActivePanel(null)}>
+          <PrivacyPanel
+              settings={privacy}
+              onChange={(patch) => updateConfigSection('privacy', patch)}
+              lastUpload={lastUpload}
+              privateZoneCount={regions.filter(region => region.kind === 'private').length}
+              extraCameraCount={cameras.extra.length}
+              onEditZones={() => setActivePanel('regions')}
+          />
+      </SidePanel>
+
+      <SidePanel title="Scene Memory" isOpen={activePanel === 'scene'} onClose={() => setActivePanel(null)}>
+          <div className="space-y-10">
+              {cameras.extra.length > 0 && <p className="text-sm font-bold text-gray-600 uppercase tracking-wider">{cameras.primaryName}</p>}
+              <ScenePanel scene={sceneState} />
+              {cameras.extra.map(camera => (
+                  <div key={camera.id} className="space-y-6">
+                      <p className="text-sm font-bold text-gray-600 uppercase tracking-wider">{camera.name}</p>
+                      <ScenePanel scene={cameraScenes[camera.id] ?? EMPTY_SCENE_STATE} />
+                  </div>
+              ))}
+          </div>
+      </SidePanel>
+
+      <SidePanel title="Cameras" isOpen={activePanel === 'cameras'} onClose={() => setActivePanel(null)}>
+          <CameraPanel settings={cameras} onChange={(patch) => updateConfigSection('cameras', patch)} isHeldByPrivacy={isExtraCameraHeld} />
+      </SidePanel>
+
+      <SidePanel title="Probe Mode" isOpen={activePanel === 'probe'} onClose={() => setActivePanel(null)}>
+          <ProbePanel config={probeConfig} onChange={(probe: ProbeConfig) => updateConfigSection('probe', probe)} currentCycle={probeCycle} />
+      </SidePanel>
+
+      <SidePanel title="Prompt Profiles" isOpen={activePanel === 'profiles'} onClose={() => setActivePanel(null)}>
+          <ProfilePanel
+              profiles={profiles}
+              activeProfileId={activeProfile.id}
+              onSelect={selectProfile}
+              onSave={saveProfile}
+              onDuplicate={duplicateProfile}
+              onDelete={deleteProfile}
+              onReset={resetProfile}
+          />
+      </SidePanel>
 
       {/* FIXED HEADER */}
       <header className="flex-none h-20 px-8 flex items-center justify-between z-20 shadow-sm relative">
@@ -140,11 +1162,137 @@ export default function App() {
           </div>
 
           <div className="flex items-center gap-6">
+               <button
+                  onClick={() => setActivePanel(activePanel === 'profiles' ? null : 'profiles')}
+                  className="flex flex-col items-end group"
+                  title="Prompt profiles"
+               >
+                  <span className="text-[10px] uppercase font-bold tracking-widest text-gray-400">Profile</span>
+                  <span className="text-sm font-bold text-gray-700 group-hover:text-gray-900 flex items-center gap-1">
+                      <BookOpen className="w-3 h-3" /> {activeProfile.name}
+                  </span>
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'scene' ? null : 'scene')}
+                  className="w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn text-gray-500 hover:text-gray-800 transition-colors"
+                  title="Scene memory"
+               >
+                  <Brain className="w-4 h-4" />
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'history' ? null : 'history')}
+                  className="w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn text-gray-500 hover:text-gray-800 transition-colors"
+                  title="Observation history"
+               >
+                  <GalleryThumbnails className="w-4 h-4" />
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'detection' ? null : 'detection')}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn transition-colors ${
+                      detector.status === 'error' ? 'text-red-500' : detection.enabled ? 'text-sky-600' : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                  title="Object detection"
+               >
+                  <ScanSearch className="w-4 h-4" />
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'cameras' ? null : 'cameras')}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn transition-colors ${
+                      primaryCamera ? 'text-indigo-600' : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                  title="Cameras"
+               >
+                  <Webcam className="w-4 h-4" />
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'usage' ? null : 'usage')}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn transition-colors ${
+                      budgetExceeded(usageTotals, config.usage) ? 'text-red-500' : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                  title="Usage & budget"
+               >
+                  <Gauge className="w-4 h-4" />
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'privacy' ? null : 'privacy')}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn transition-colors ${
+                      privacy.enabled ? 'text-purple-600' : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                  title="Privacy filter"
+               >
+                  <ShieldCheck className="w-4 h-4" />
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'regions' ? null : 'regions')}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn transition-colors ${
+                      regions.length > 0 ? 'text-green-600' : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                  title="Regions of interest & masks"
+               >
+                  <Crop className="w-4 h-4" />
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'triggers' ? null : 'triggers')}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn transition-colors ${
+                      triggerRules.some(rule => rule.enabled) ? 'text-blue-600' : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                  title="Triggers"
+               >
+                  <Bell className="w-4 h-4" />
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'probe' ? null : 'probe')}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn transition-colors ${
+                      probeConfig.enabled ? 'text-amber-600' : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                  title="Probe mode"
+               >
+                  <FlaskConical className="w-4 h-4" />
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'sessions' ? null : 'sessions')}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn transition-colors ${
+                      recordingEnabled ? 'text-red-500' : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                  title="Sessions: record & replay"
+               >
+                  <Film className="w-4 h-4" />
+               </button>
+
+               <button
+                  onClick={() => setActivePanel(activePanel === 'settings' ? null : 'settings')}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center neu-convex neu-btn transition-colors ${
+                      providerError ? 'text-red-500' : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                  title="Settings & credentials"
+               >
+                  <Settings className="w-4 h-4" />
+               </button>
+
                <div className="flex flex-col items-end">
                     <span className="text-[10px] uppercase font-bold tracking-widest text-gray-400">System Status</span>
                     <div className="flex items-center gap-2">
-                        <span className={`w-2 h-2 rounded-full ${isActive ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.4)]' : 'bg-gray-400'}`}></span>
-                        <span className="text-sm font-bold text-gray-700">{isActive ? 'ONLINE' : 'STANDBY'}</span>
+                        <span className={`w-2 h-2 rounded-full ${
+                            !isActive ? 'bg-gray-400'
+                            : visionHealth.status === 'degraded' ? 'bg-amber-500 shadow-[0_0_8px_rgba(245,158,11,0.4)]'
+                            : 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.4)]'
+                        }`}></span>
+                        <span
+                            className="text-sm font-bold text-gray-700"
+                            title={isActive && visionHealth.status === 'degraded' ? `Vision API failing (${visionHealth.lastError}); motion-only updates until a probe succeeds.` : undefined}
+                        >
+                            {!isActive ? 'STANDBY' : visionHealth.status === 'degraded' ? 'DEGRADED' : replay ? 'REPLAY' : 'ONLINE'}
+                        </span>
                     </div>
                </div>
                
@@ -168,6 +1316,7 @@ export default function App() {
              <div className="flex items-center justify-between px-2">
                  <h2 className="text-sm font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
                     <Disc className="w-4 h-4" /> Optical Input
+                    {cameras.extra.length > 0 && <span className="normal-case text-gray-400">· {cameras.primaryName}</span>}
                  </h2>
                  {isActive && processingState === ProcessingState.ANALYZING && (
                      <span className="text-xs font-bold text-gray-400 animate-pulse">ANALYZING...</span>
@@ -179,21 +1328,88 @@ export default function App() {
                  <div className="w-full h-full rounded-[16px] overflow-hidden bg-black/5 relative shadow-inner">
                     <LiveFeed 
                         ref={liveFeedRef} 
-                        isActive={isActive} 
+                        isActive={isActive && !replay} 
+                        source={feedSource}
                         onStreamReady={setIsStreamReady} 
+                        regions={regions}
+                        regionEditKind={regionEditKind}
+                        onRegionDrawn={addRegion}
+                        capture={captureFrame}
+                        burst={burstSettings}
+                        onFrameAspectChange={setFrameAspect}
+                        trackedObjects={trackedObjects}
                     />
+                    {privacy.enabled && lastUpload && isActive && (
+                        <div className="absolute bottom-3 right-3 z-40 w-1/4 min-w-[120px] rounded-lg overflow-hidden border border-purple-400/60 shadow-lg bg-black">
+                            <img src={lastUpload.image} alt="Last uploaded frame" className="w-full block" />
+                            <span className="absolute top-1 left-1 px-1 rounded bg-purple-600/80 text-[9px] font-bold tracking-widest text-white">
+                                SENT · {lastUpload.faces + lastUpload.zones} REDACTED
+                            </span>
+                        </div>
+                    )}
+                    {replay && (
+                        <div className="absolute inset-0 z-30 bg-[#1a1a1a]">
+                            {replayFrame && <img src={replayFrame} alt="Replay frame" className="w-full h-full object-cover opacity-90" />}
+                            <div className="absolute top-4 left-4 flex gap-2 items-center">
+                                <Film className="w-3 h-3 text-amber-400" />
+                                <span className="text-[10px] font-bold tracking-widest text-amber-400">
+                                    REPLAY {replay.source.position()}/{replay.source.total}
+                                </span>
+                            </div>
+                        </div>
+                    )}
                  </div>
              </div>
              
+             {/* Extra Cameras */}
+             {cameras.extra.length > 0 && (
+                 <div className="grid grid-cols-2 lg:grid-cols-3 gap-3 flex-none">
+                     {cameras.extra.map(camera => (
+                         <CameraTile
+                             key={camera.id}
+                             camera={camera}
+                             isSystemActive={isActive && !replay}
+                             capture={captureFrame}
+                             isHeld={isExtraCameraHeld}
+                             onCycle={analyzeCamera}
+                             onToggle={(enabled) => updateConfigSection('cameras', {
+                                 extra: getConfig().cameras.extra.map(c => c.id === camera.id ? { ...c, enabled } : c),
+                             })}
+                         />
+                     ))}
+                 </div>
+             )}
+
              {/* Controls / Info */}
              <div className="h-24 neu-flat p-6 flex items-center justify-between rounded-[20px]">
                  <div className="space-y-1">
                      <p className="text-xs text-gray-400 font-bold uppercase">Active Sensor</p>
-                     <p className="text-sm font-medium text-gray-700">Generic Webcam Device</p>
+                     <SourcePicker source={feedSource} onChange={changeFeedSource} isStreamReady={isStreamReady} />
+                 </div>
+                 <div className="space-y-1 text-center">
+                     <p className="text-xs text-gray-400 font-bold uppercase">Change Gate</p>
+                     <div className="flex items-center gap-2">
+                         <input
+                            type="range"
+                            min={0.005}
+                            max={0.2}
+                            step={0.005}
+                            value={changeThreshold}
+                            onChange={(e) => updateConfigSection('capture', { changeThreshold: Number(e.target.value) })}
+                            className="w-24 accent-gray-500"
+                            title="Minimum change required before a frame is sent to the vision model"
+                         />
+                         <span className="text-sm font-medium text-gray-700 w-12">{(changeThreshold * 100).toFixed(1)}%</span>
+                     </div>
                  </div>
                  <div className="space-y-1 text-right">
                      <p className="text-xs text-gray-400 font-bold uppercase">Latency</p>
-                     <p className="text-sm font-medium text-gray-700">{isActive ? '~4000ms' : '--'}</p>
+                     <p className="text-sm font-medium text-gray-700">
+                        {isActive && roundTripMs !== null ? `${roundTripMs}ms` : '--'}
+                        {isActive && captureIntervalMs !== null && (
+                            <span className="text-gray-400"> / every {(captureIntervalMs / 1000).toFixed(1)}s</span>
+                        )}
+                     </p>
                  </div>
              </div>
           </div>
@@ -205,7 +1421,15 @@ export default function App() {
                     <Cpu className="w-4 h-4" /> Logic Stream
                  </h2>
                  <div className="flex items-center gap-3">
-                    <span className="px-2 py-1 rounded-md bg-gray-200 text-[10px] font-bold text-gray-500">{logs.length} EVENTS</span>
+                    {conversation.status === 'connected' && (
+                        <span
+                            className={`px-2 py-1 rounded-md bg-gray-200 text-[10px] font-bold ${bridgeStats.depth > 0 ? 'text-amber-600' : 'text-gray-500'}`}
+                            title={`Bridge queue: ${bridgeStats.depth} pending, ${bridgeStats.sent} sent, ${bridgeStats.coalesced} merged, ${bridgeStats.dropped} dropped, ${bridgeStats.failed} failed`}
+                        >
+                            QUEUE {bridgeStats.depth} · MERGED {bridgeStats.coalesced} · DROPPED {bridgeStats.dropped}
+                        </span>
+                    )}
+                    <span className="px-2 py-1 rounded-md bg-gray-200 text-[10px] font-bold text-gray-500">{logs.length + transcript.length} EVENTS</span>
                     <button 
                         onClick={() => setIsExpanded(!isExpanded)}
                         className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-gray-300 text-gray-500 transition-colors"
@@ -222,7 +1446,7 @@ export default function App() {
                   
                   {/* Scrollable Container */}
                   <div className="flex-1 min-h-0 relative">
-                      <Terminal logs={logs} />
+                      <Terminal logs={logs} transcript={transcript} onOpenEntry={openEntry} />
                   </div>
              </div>
           </div>
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CameraFeed, CameraSettings, createCameraFeed } from '../services/cameras';
+import { CameraSource, listCameras } from '../services/feedSources';
+
+interface CameraPanelProps {
+  settings: CameraSettings;
+  onChange: (patch: Partial<CameraSettings>) => void;
+  /** Extra cameras upload nothing while private zones are set (see `extraCamerasHeld`). */
+  isHeldByPrivacy: boolean;
+}
+
+const sectionTitle = "text-xs font-bold text-gray-400 ml-2 uppercase tracking-wide";
+const fieldBox = "neu-pressed rounded-xl px-4 py-2 flex items-center gap-3";
+const fieldInput = "bg-transparent w-full outline-none text-gray-700 text-sm placeholder-gray-400";
+
+/**
+ * Names the main Optical Input and manages extra cameras, each with its
+ * own device, loop interval and on/off switch.
+ */
+export const CameraPanel: React.FC<CameraPanelProps> = ({ settings, onChange, isHeldByPrivacy }) => {
+  const [devices, setDevices] = useState<CameraSource[]>([]);
+
+  useEffect(() => {
+    const refresh = () => listCameras().then(setDevices).catch(() => setDevices([]));
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, []);
+
+  const updateCamera = (id: string, patch: Partial<CameraFeed>) =>
+    onChange({ extra: settings.extra.map(camera => camera.id === id ? { ...camera, ...patch } : camera) });
+
+  return (
+    <div className="space-y-8">
+      <p className="text-xs text-gray-500 px-1">
+        Every extra camera gets its own tile, change gate, scene memory and vision loop. Once there is more than one camera,
+        observations are labeled with the camera name (e.g. "Kitchen cam: …") before they reach the agent.
+        Regions, bursts, recording and local detection stay with the main feed.
+      </p>
+      {isHeldByPrivacy && settings.extra.length > 0 && (
+        <p className="neu-pressed rounded-xl px-4 py-3 text-xs font-bold text-purple-600">
+          Extra cameras are not uploading. Private zones are drawn on the main feed and cannot be applied to other cameras,
+          so their frames are held while any zone is set and the privacy filter is on.
+        </p>
+      )}
+
+      <section className="space-y-3">
+        <p className={sectionTitle}>Main Optical Input</p>
+        <div className={fieldBox}>
+          <input
+            value={settings.primaryName}
+            onChange={(e) => onChange({ primaryName: e.target.value })}
+            placeholder="Main cam"
+            className={fieldInput}
+          />
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <p className={sectionTitle}>Extra Cameras</p>
+        {settings.extra.length === 0 && (
+          <p className="text-sm text-gray-400 text-center py-4">No extra cameras.</p>
+        )}
+        {settings.extra.map(camera => (
+          <div key={camera.id} className="neu-flat rounded-2xl p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <div className={`${fieldBox} flex-1`}>
+                <input
+                  value={camera.name}
+                  onChange={(e) => updateCamera(camera.id, { name: e.target.value })}
+                  placeholder="Camera name"
+                  className={fieldInput}
+                />
+              </div>
+              <button
+                onClick={() => updateCamera(camera.id, { enabled: !camera.enabled })}
+                className={`flex-none h-10 px-3 rounded-xl font-bold uppercase text-xs tracking-widest transition-colors ${
+                  camera.enabled ? 'neu-pressed text-green-600' : 'neu-convex neu-btn text-gray-500 hover:text-gray-800'
+                }`}
+              >
+                {camera.enabled ? 'On' : 'Off'}
+              </button>
+              <button
+                onClick={() => onChange({ extra: settings.extra.filter(c => c.id !== camera.id) })}
+                className="flex-none w-10 h-10 rounded-xl neu-convex neu-btn flex items-center justify-center text-gray-500 hover:text-red-500"
+                title="Remove camera"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="space-y-1 block">
+                <span className="text-[10px] font-bold text-gray-400 ml-2 uppercase tracking-widest">Device</span>
+                <div className={fieldBox}>
+                  <select
+                    value={camera.deviceId ?? ''}
+                    onChange={(e) => updateCamera(camera.id, { deviceId: e.target.value || null })}
+                    className={`${fieldInput} cursor-pointer`}
+                  >
+                    <option value="">Default camera</option>
+                    {camera.deviceId && !devices.some(device => device.deviceId === camera.deviceId) && (
+                      <option value={camera.deviceId}>Unavailable device</option>
+                    )}
+                    {devices.filter(device => device.deviceId).map(device => (
+                      <option key={device.deviceId} value={device.deviceId!}>{device.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </label>
+              <label className="space-y-1 block">
+                <span className="text-[10px] font-bold text-gray-400 ml-2 uppercase tracking-widest">Interval</span>
+                <div className={fieldBox}>
+                  <input
+                    type="number"
+                    min={1}
+                    max={300}
+                    step={1}
+                    value={camera.intervalMs / 1000}
+                    onChange={(e) => {
+                      const seconds = Number(e.target.value);
+                      if (Number.isFinite(seconds)) updateCamera(camera.id, { intervalMs: Math.min(300, Math.max(1, seconds)) * 1000 });
+                    }}
+                    className={fieldInput}
+                  />
+                  <span className="flex-none text-xs text-gray-400">s</span>
+                </div>
+              </label>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ extra: [...settings.extra, createCameraFeed(settings.extra)] })}
+          className="w-full h-10 neu-convex neu-btn rounded-xl font-bold text-gray-600 uppercase text-xs tracking-widest flex items-center justify-center gap-2 hover:text-gray-900"
+        >
+          <Plus className="w-4 h-4" /> Add Camera
+        </button>
+        <p className="text-xs text-gray-500 px-1">
+          Each camera is billed like the main feed: one vision call per changed frame. Device names appear once camera access has been granted.
+        </p>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Power } from 'lucide-react';
+import { LiveFeed, LiveFeedHandle } from './LiveFeed';
+import { CameraFeed } from '../services/cameras';
+import { BurstSettings, DEFAULT_BURST_SETTINGS } from '../services/burstCapture';
+import { CaptureSettings } from '../services/captureSettings';
+import { createCaptureScheduler, CycleOutcome } from '../services/captureScheduler';
+import { getConfig } from '../services/configStore';
+import { FeedSource, RegionOfInterest } from '../types';
+
+interface CameraTileProps {
+  camera: CameraFeed;
+  /** Whether the visual system is running at all. */
+  isSystemActive: boolean;
+  capture: CaptureSettings;
+  /** Uploads are held because private zones are set (see `extraCamerasHeld`). */
+  isHeld: boolean;
+  /** Runs one vision cycle for this camera. */
+  onCycle: (camera: CameraFeed, feed: LiveFeedHandle) => Promise<CycleOutcome>;
+  onToggle: (enabled: boolean) => void;
+}
+
+// Regions are drawn on the main feed only, and bursts are a main-loop feature.
+const NO_REGIONS: RegionOfInterest[] = [];
+const NO_BURST: BurstSettings = { ...DEFAULT_BURST_SETTINGS, mode: 'off' };
+const noop = () => {};
+
+/**
+ * A named feed tile for one extra camera, running its own self-scheduling
+ * vision loop at the camera's interval.
+ */
+export const CameraTile: React.FC<CameraTileProps> = ({ camera, isSystemActive, capture, isHeld, onCycle, onToggle }) => {
+  const feedRef = useRef<LiveFeedHandle>(null);
+  const [isStreamReady, setIsStreamReady] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const cameraRef = useRef(camera);
+  cameraRef.current = camera;
+  const onCycleRef = useRef(onCycle);
+  onCycleRef.current = onCycle;
+
+  const isActive = isSystemActive && camera.enabled;
+  const isRunning = isActive && isStreamReady;
+  const source = useMemo<FeedSource>(
+    () => ({ kind: 'camera', deviceId: camera.deviceId, label: camera.name }),
+    // The label is cosmetic; renaming must not reopen the stream.
+    [camera.deviceId]
+  );
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const options = getConfig().capture.scheduler;
+    const scheduler = createCaptureScheduler({
+      ...options,
+      baseIntervalMs: camera.intervalMs,
+      minIntervalMs: Math.min(options.minIntervalMs, camera.intervalMs),
+      maxIntervalMs: Math.max(options.maxIntervalMs, camera.intervalMs),
+    });
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const tick = async () => {
+      const feed = feedRef.current;
+      setIsAnalyzing(true);
+      const outcome = feed ? await onCycleRef.current(cameraRef.current, feed) : 'error';
+      if (cancelled) return;
+      setIsAnalyzing(false);
+      timer = setTimeout(tick, scheduler.next(outcome));
+    };
+    tick();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      setIsAnalyzing(false);
+    };
+  }, [isRunning, camera.intervalMs]);
+
+  return (
+    <div className="neu-pressed rounded-[16px] p-2 flex flex-col gap-2 min-w-0">
+      <div className="relative aspect-video rounded-xl overflow-hidden bg-black/5">
+        <LiveFeed
+          ref={feedRef}
+          isActive={isActive}
+          source={source}
+          onStreamReady={setIsStreamReady}
+          regions={NO_REGIONS}
+          regionEditKind={null}
+          onRegionDrawn={noop}
+          capture={capture}
+          burst={NO_BURST}
+        />
+      </div>
+      <div className="flex items-center gap-2 px-1">
+        <span className={`flex-none w-2 h-2 rounded-full ${isRunning ? 'bg-green-500' : 'bg-gray-400'} ${isAnalyzing ? 'animate-pulse' : ''}`}></span>
+        <span className="flex-1 text-xs font-bold text-gray-600 truncate" title={`Every ${(camera.intervalMs / 1000).toFixed(1)}s`}>{camera.name}</span>
+        {isHeld && (
+          <span className="flex-none text-[10px] font-bold uppercase tracking-widest text-purple-600" title="Private zones cannot be applied to this camera, so nothing is uploaded.">
+            Held
+          </span>
+        )}
+        <button
+          onClick={() => onToggle(!camera.enabled)}
+          className={`flex-none w-6 h-6 rounded-full flex items-center justify-center transition-colors ${
+            camera.enabled ? 'text-green-600 hover:text-gray-600' : 'text-gray-400 hover:text-gray-700'
+          }`}
+          title={camera.enabled ? 'Pause this camera' : 'Enable this camera'}
+        >
+          <Power className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+};
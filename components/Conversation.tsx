@@ -1,19 +1,22 @@
 import { Mic, MicOff, Loader2, Radio } from 'lucide-react';
 import { useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { fetchSignedConversationUrl } from '../services/proxyService';
 
 interface ConversationProps {
   conversation: any; 
   agentId: string;
+  /** When set, sessions start from a signed URL minted by the backend proxy. */
+  proxyUrl?: string;
 }
 
-export function Conversation({ conversation, agentId }: ConversationProps) {
+export function Conversation({ conversation, agentId, proxyUrl }: ConversationProps) {
   const { status, isSpeaking } = conversation;
   const [error, setError] = useState<string | null>(null);
 
   const toggleConversation = useCallback(async () => {
     setError(null);
-    if (!agentId) {
+    if (!agentId && !proxyUrl) {
       setError("No Agent ID configured.");
       return;
     }
@@ -22,12 +25,17 @@ export function Conversation({ conversation, agentId }: ConversationProps) {
         await conversation.endSession();
       } else {
         await navigator.mediaDevices.getUserMedia({ audio: true });
-        await conversation.startSession({ agentId: agentId });
+        if (proxyUrl) {
+          const signedUrl = await fetchSignedConversationUrl(proxyUrl, agentId);
+          await conversation.startSession({ signedUrl });
+        } else {
+          await conversation.startSession({ agentId: agentId });
+        }
       }
     } catch (err: any) {
       setError(err.message || "Connection Failed");
     }
-  }, [conversation, status, agentId]);
+  }, [conversation, status, agentId, proxyUrl]);
 
   return (
     <div className="fixed bottom-8 right-8 z-50 flex flex-col items-end gap-4 pointer-events-none">
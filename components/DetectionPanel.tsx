@@ -0,0 +1,152 @@
+import React from 'react';
+import { DetectionSettings } from '../services/objectDetector';
+import { describePosition, TrackedObject } from '../services/objectTracker';
+
+/** Lifecycle of the lazily loaded detector model. */
+export type DetectorStatus = 'off' | 'loading' | 'ready' | 'error';
+
+interface DetectionPanelProps {
+  settings: DetectionSettings;
+  onChange: (patch: Partial<DetectionSettings>) => void;
+  status: DetectorStatus;
+  /** Load failure, when status is 'error'. */
+  error: string | null;
+  objects: TrackedObject[];
+  isFeedLive: boolean;
+}
+
+const sectionTitle = "text-xs font-bold text-gray-400 ml-2 uppercase tracking-wide";
+
+const STATUS_LABELS: Record<DetectorStatus, string> = {
+  off: 'Off',
+  loading: 'Loading model…',
+  ready: 'Running',
+  error: 'Failed to load',
+};
+
+const Toggle: React.FC<{ label: string; hint: string; value: boolean; disabled?: boolean; onChange: (value: boolean) => void }> = ({
+  label, hint, value, disabled, onChange,
+}) => (
+  <div className={`flex items-start gap-3 ${disabled ? 'opacity-50' : ''}`}>
+    <button
+      onClick={() => onChange(!value)}
+      disabled={disabled}
+      className="flex-none mt-0.5 w-10 h-6 rounded-full neu-pressed relative"
+    >
+      <span className={`absolute top-1 w-4 h-4 rounded-full transition-all ${value ? 'left-5 bg-sky-500' : 'left-1 bg-gray-400'}`}></span>
+    </button>
+    <div>
+      <p className="text-sm font-bold text-gray-700">{label}</p>
+      <p className="text-xs text-gray-500">{hint}</p>
+    </div>
+  </div>
+);
+
+const NumberField: React.FC<{ label: string; value: number; min: number; max: number; step: number; unit?: string; onChange: (value: number) => void }> = ({
+  label, value, min, max, step, unit, onChange,
+}) => (
+  <label className="space-y-1 block">
+    <span className="text-[10px] font-bold text-gray-400 ml-2 uppercase tracking-widest">{label}</span>
+    <div className="neu-pressed rounded-xl px-4 py-2 flex items-center gap-3">
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          if (Number.isFinite(next)) onChange(Math.min(max, Math.max(min, next)));
+        }}
+        className="bg-transparent w-full outline-none text-gray-700 text-sm"
+      />
+      {unit && <span className="flex-none text-xs text-gray-400">{unit}</span>}
+    </div>
+  </label>
+);
+
+/**
+ * Settings for the on-device COCO detector and the objects it is
+ * currently tracking.
+ */
+export const DetectionPanel: React.FC<DetectionPanelProps> = ({ settings, onChange, status, error, objects, isFeedLive }) => (
+  <div className="space-y-8">
+    <p className="text-xs text-gray-500 px-1">
+      A small COCO object detector runs in this browser on the CPU. Its boxes and track ids are drawn over the feed,
+      handed to the vision model as grounding, and its enter/exit events are reported even when the model is slow or down.
+      The model (about 5 MB) is only downloaded once detection is switched on.
+    </p>
+    {!settings.modelUrl && (
+      <p className="neu-pressed rounded-xl px-4 py-3 text-xs text-amber-600">
+        No Model URL is set, so the weights are fetched from Google's TF.js model storage each time detection starts.
+        That needs network access: without it detection fails to load. To run fully offline, copy model.json and its
+        weight files into <span className="font-mono">public/models/coco-ssd/</span> and set the URL to <span className="font-mono">/models/coco-ssd/model.json</span>.
+      </p>
+    )}
+
+    <div className="neu-flat rounded-2xl p-4 space-y-4">
+      <Toggle
+        label="Object Detection"
+        hint="Detect and track objects while the live feed runs."
+        value={settings.enabled}
+        onChange={(enabled) => onChange({ enabled })}
+      />
+      <Toggle
+        label="Ground the Vision Model"
+        hint="Send the tracked objects with every describe-diff request."
+        value={settings.groundPrompt}
+        disabled={!settings.enabled}
+        onChange={(groundPrompt) => onChange({ groundPrompt })}
+      />
+      <Toggle
+        label="Local Enter / Exit Events"
+        hint="Log objects coming and going, sync them to the agent and run triggers on them."
+        value={settings.localEvents}
+        disabled={!settings.enabled}
+        onChange={(localEvents) => onChange({ localEvents })}
+      />
+    </div>
+
+    <section className="space-y-3">
+      <p className={sectionTitle}>Tuning</p>
+      <div className="grid grid-cols-2 gap-3">
+        <NumberField label="Min Score" value={settings.minScore} min={0.1} max={0.95} step={0.05} onChange={(minScore) => onChange({ minScore })} />
+        <NumberField label="Every" value={settings.intervalMs} min={250} max={10000} step={250} unit="ms" onChange={(intervalMs) => onChange({ intervalMs })} />
+      </div>
+      <label className="space-y-1 block">
+        <span className="text-[10px] font-bold text-gray-400 ml-2 uppercase tracking-widest">Model URL</span>
+        <div className="neu-pressed rounded-xl px-4 py-2">
+          <input
+            value={settings.modelUrl}
+            onChange={(e) => onChange({ modelUrl: e.target.value.trim() })}
+            placeholder="Hosted COCO-SSD weights (needs network)"
+            className="bg-transparent w-full outline-none text-gray-700 text-sm placeholder-gray-400"
+          />
+        </div>
+      </label>
+    </section>
+
+    <section className="space-y-3">
+      <p className={sectionTitle}>
+        Tracked Objects · {STATUS_LABELS[status]}
+      </p>
+      {status === 'error' && error && (
+        <p className="neu-pressed rounded-xl px-4 py-3 text-xs font-bold text-red-500">{error}</p>
+      )}
+      {objects.length > 0 ? (
+        <div className="neu-pressed rounded-xl px-4 py-3 space-y-1 text-xs font-mono text-gray-600">
+          {objects.map(object => (
+            <div key={object.id} className={`flex justify-between gap-3 ${object.misses > 0 ? 'opacity-50' : ''}`}>
+              <span>{object.label} #{object.id}</span>
+              <span>{describePosition(object.box)} · {Math.round(object.score * 100)}%</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 text-center py-4">
+          {!settings.enabled ? 'Detection is off.' : isFeedLive ? 'Nothing tracked right now.' : 'Start the live feed to detect objects.'}
+        </p>
+      )}
+    </section>
+  </div>
+);
@@ -0,0 +1,98 @@
+import React, { useEffect } from 'react';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { LogEntry } from '../types';
+
+interface FrameViewerProps {
+  /** Visual entries that carry frames, oldest first. */
+  entries: LogEntry[];
+  index: number;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const FramePane: React.FC<{ label: string; image?: string }> = ({ label, image }) => (
+  <figure className="flex-1 min-w-0 space-y-2">
+    <figcaption className="text-[10px] font-bold uppercase tracking-widest text-gray-400 ml-1">{label}</figcaption>
+    {image ? (
+      <img src={image} alt={label} className="w-full rounded-xl bg-black" />
+    ) : (
+      <div className="aspect-[4/3] rounded-xl neu-pressed flex items-center justify-center text-xs text-gray-400">No frame kept</div>
+    )}
+  </figure>
+);
+
+/**
+ * Side-by-side view of a visual log entry: the frame the model described
+ * next to the one before it, to check descriptions against what the
+ * camera actually saw. Arrow keys step through entries, Escape closes.
+ */
+export const FrameViewer: React.FC<FrameViewerProps> = ({ entries, index, onNavigate, onClose }) => {
+  const entry = entries[index];
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && index > 0) onNavigate(index - 1);
+      if (e.key === 'ArrowRight' && index < entries.length - 1) onNavigate(index + 1);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [index, entries.length, onNavigate, onClose]);
+
+  if (!entry?.frames) return null;
+  const { observation } = entry;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-gray-200/80 backdrop-blur-sm flex items-center justify-center p-6 font-sans" onClick={onClose}>
+      <div className="max-w-5xl w-full neu-flat rounded-[24px] p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400">
+            {formatTime(entry.timestamp)} · {index + 1} / {entries.length}
+          </span>
+          {entry.camera && <span className="text-[10px] font-bold text-indigo-600 uppercase tracking-widest">{entry.camera}</span>}
+          {entry.probe && <span className="text-[10px] font-bold text-amber-600 uppercase tracking-widest">Probe</span>}
+          {entry.tool && <span className="text-[10px] font-bold text-sky-600 uppercase tracking-widest">{entry.tool}</span>}
+          <div className="flex-1" />
+          <button
+            onClick={() => onNavigate(index - 1)}
+            disabled={index === 0}
+            className="w-8 h-8 rounded-full neu-convex neu-btn flex items-center justify-center text-gray-500 disabled:opacity-40"
+            title="Older"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onNavigate(index + 1)}
+            disabled={index === entries.length - 1}
+            className="w-8 h-8 rounded-full neu-convex neu-btn flex items-center justify-center text-gray-500 disabled:opacity-40"
+            title="Newer"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="w-8 h-8 rounded-full hover:bg-gray-300 flex items-center justify-center text-gray-500" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex gap-4">
+          {!entry.tool && <FramePane label="Before" image={entry.frames.previous} />}
+          <FramePane label={entry.tool ? 'Frame Shown' : 'After'} image={entry.frames.current} />
+        </div>
+
+        <div className="neu-pressed rounded-xl px-4 py-3 space-y-2">
+          <p className="text-sm text-gray-800">{entry.message}</p>
+          {observation && (
+            <p className="text-xs text-gray-500 flex flex-wrap gap-2">
+              {observation.eventType && <span className="uppercase font-bold">{observation.eventType}</span>}
+              {observation.entities.map((entity, i) => <span key={`${entity.label}-${i}`}>#{entity.label}</span>)}
+              <span>{Math.round(observation.confidence * 100)}% confidence</span>
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { LogEntry } from '../types';
+
+interface HistoryPanelProps {
+  /** Visual entries that carry frames, oldest first. */
+  entries: LogEntry[];
+  onOpen: (entry: LogEntry) => void;
+  thumbnailsEnabled: boolean;
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Observations with the frames they were made from, newest first.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, onOpen, thumbnailsEnabled }) => (
+  <div className="space-y-3">
+    {entries.length === 0 && (
+      <p className="text-sm text-gray-400 text-center py-4">
+        {thumbnailsEnabled ? 'No observations yet.' : 'Thumbnails are off (Settings → Logic Stream).'}
+      </p>
+    )}
+    {[...entries].reverse().map(entry => (
+      <button
+        key={entry.id}
+        onClick={() => onOpen(entry)}
+        className="w-full neu-flat rounded-2xl p-2 flex gap-3 text-left hover:brightness-[1.02]"
+      >
+        <img src={entry.frames!.current} alt="" className="flex-none w-28 rounded-xl bg-black object-cover" />
+        <div className="flex-1 min-w-0 py-1 space-y-1">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400">
+            {formatTime(entry.timestamp)}
+            {entry.camera && <span className="text-indigo-600"> · {entry.camera}</span>}
+            {entry.tool && <span className="text-sky-600"> · {entry.tool}</span>}
+            {entry.probe && <span className="text-amber-600"> · probe</span>}
+          </p>
+          <p className="text-sm text-gray-700 line-clamp-3">{entry.message}</p>
+        </div>
+      </button>
+    ))}
+  </div>
+);
@@ -1,8 +1,9 @@
-import React, { useState, useEffect } from 'react';
-import { Lock, Fingerprint, ArrowRight } from 'lucide-react';
+import React, { useState } from 'react';
+import { Lock, Fingerprint, ArrowRight, Loader2 } from 'lucide-react';
 
 interface KeyEntryModalProps {
-  onConfirm: (apiKey: string, agentId: string) => void;
+  /** Validates and stores the credentials. Resolves to an error message, or null on success. */
+  onConfirm: (apiKey: string, agentId: string) => Promise<string | null>;
   onCancel?: () => void;
   initialApiKey?: string;
   initialAgentId?: string;
@@ -11,25 +12,17 @@ interface KeyEntryModalProps {
 export const KeyEntryModal: React.FC<KeyEntryModalProps> = ({ onConfirm, onCancel, initialApiKey = '', initialAgentId = '' }) => {
   const [apiKey, setApiKey] = useState(initialApiKey);
   const [agentId, setAgentId] = useState(initialAgentId);
+  const [isValidating, setIsValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (!initialApiKey) {
-        const storedKey = localStorage.getItem('GEMINI_API_KEY');
-        if (storedKey) setApiKey(storedKey);
-    }
-    if (!initialAgentId) {
-        const storedAgent = localStorage.getItem('AGENT_ID');
-        if (storedAgent) setAgentId(storedAgent);
-    }
-  }, [initialApiKey, initialAgentId]);
-
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (apiKey.trim()) {
-      localStorage.setItem('GEMINI_API_KEY', apiKey.trim());
-      localStorage.setItem('AGENT_ID', agentId.trim());
-      onConfirm(apiKey.trim(), agentId.trim());
-    }
+    if (!apiKey.trim() || isValidating) return;
+    setIsValidating(true);
+    setError(null);
+    const message = await onConfirm(apiKey.trim(), agentId.trim());
+    setIsValidating(false);
+    if (message) setError(message);
   };
 
   return (
@@ -73,13 +66,29 @@ export const KeyEntryModal: React.FC<KeyEntryModalProps> = ({ onConfirm, onCance
                 </div>
             </div>
 
+            {error && (
+                <p className="text-xs font-bold text-red-500 text-center">{error}</p>
+            )}
+
             <button 
                 type="submit"
-                disabled={!apiKey}
+                disabled={!apiKey || isValidating}
                 className="w-full h-12 mt-4 neu-convex rounded-xl font-bold text-gray-600 uppercase text-sm tracking-widest hover:text-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
-                Connect System <ArrowRight className="w-4 h-4" />
+                {isValidating
+                    ? <>Validating <Loader2 className="w-4 h-4 animate-spin" /></>
+                    : <>Connect System <ArrowRight className="w-4 h-4" /></>}
             </button>
+
+            {onCancel && (
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="w-full text-xs font-bold text-gray-400 uppercase tracking-widest hover:text-gray-600"
+                >
+                    Cancel
+                </button>
+            )}
         </form>
       </div>
     </div>
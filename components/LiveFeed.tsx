@@ -1,28 +1,86 @@
-import React, { useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
+import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import { computeFrameSignature, FrameSignature } from '../services/changeDetector';
+import { BURST_FRAME_WIDTH, BurstFrame, BurstSettings, createFrameRing } from '../services/burstCapture';
+import { CAPTURE_MIME_TYPES, CaptureSettings } from '../services/captureSettings';
+import { acquireStream } from '../services/feedSources';
+import { DETECTION_INPUT_WIDTH } from '../services/objectDetector';
+import { TrackedObject } from '../services/objectTracker';
+import { captureRegionCrops, paintExclusions, RegionCrop } from '../services/regions';
+import { FeedSource, FrameRegion, RegionOfInterest } from '../types';
+import { RegionOverlay } from './RegionOverlay';
 
 export interface LiveFeedHandle {
   getSnapshot: () => string | null;
+  getSignature: () => FrameSignature | null;
+  /** Labeled crops of every include region, from the full-resolution frame. */
+  getRegionCrops: () => RegionCrop[];
+  /** Up to `count` frames sampled since the last call, oldest first; empties the buffer. */
+  takeBurst: (count: number) => BurstFrame[];
+  /** Small masked copy of the current frame for the local object detector. */
+  getDetectionFrame: () => HTMLCanvasElement | null;
 }
 
 interface LiveFeedProps {
   isActive: boolean;
+  source: FeedSource;
   onStreamReady: (ready: boolean) => void;
+  regions: RegionOfInterest[];
+  /** Region kind being drawn on the feed, or null when not editing. */
+  regionEditKind: RegionOfInterest['kind'] | null;
+  onRegionDrawn: (kind: RegionOfInterest['kind'], rect: FrameRegion) => void;
+  capture: CaptureSettings;
+  burst: BurstSettings;
+  /** Reports the source's width / height once known, for cost estimates. */
+  onFrameAspectChange?: (aspect: number | null) => void;
+  /** Objects from the local tracker, drawn over the feed. */
+  trackedObjects?: TrackedObject[];
 }
 
-export const LiveFeed = forwardRef<LiveFeedHandle, LiveFeedProps>(({ isActive, onStreamReady }, ref) => {
+type FrameElement = { element: HTMLVideoElement | HTMLImageElement; width: number; height: number };
+
+export const LiveFeed = forwardRef<LiveFeedHandle, LiveFeedProps>(({ isActive, source, onStreamReady, regions, regionEditKind, onRegionDrawn, capture, burst, onFrameAspectChange, trackedObjects = [] }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const signatureCanvasRef = useRef<HTMLCanvasElement>(null);
+  const cropCanvasRef = useRef<HTMLCanvasElement>(null);
+  const burstCanvasRef = useRef<HTMLCanvasElement>(null);
+  const detectionCanvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRingRef = useRef(createFrameRing());
+  const [frameAspect, setFrameAspect] = useState<number | null>(null);
+
+  const isImageSequence = source.kind === 'images';
+  const { cameraWidth, cameraHeight } = capture;
+  const mimeType = CAPTURE_MIME_TYPES[capture.format];
+
+  useEffect(() => {
+    onFrameAspectChange?.(frameAspect);
+  }, [frameAspect, onFrameAspectChange]);
+
+  // Strict ready-state gating, identical for every source: no frame until the
+  // element has real dimensions and decoded pixels.
+  const getFrameElement = (): FrameElement | null => {
+    if (isImageSequence) {
+      const image = imageRef.current;
+      if (!image || !image.complete || image.naturalWidth === 0 || image.naturalHeight === 0) return null;
+      return { element: image, width: image.naturalWidth, height: image.naturalHeight };
+    }
+    const video = videoRef.current;
+    if (!video) return null;
+    if (video.videoWidth === 0 || video.videoHeight === 0) return null;
+    if (video.readyState < 2) return null;
+    return { element: video, width: video.videoWidth, height: video.videoHeight };
+  };
 
   useImperativeHandle(ref, () => ({
     getSnapshot: () => {
-      if (!videoRef.current || !canvasRef.current) return null;
-      const video = videoRef.current;
-      if (video.videoWidth === 0 || video.videoHeight === 0) return null;
-      if (video.readyState < 2) return null;
+      if (!canvasRef.current) return null;
+      const frame = getFrameElement();
+      if (!frame) return null;
 
       const canvas = canvasRef.current;
-      const targetWidth = 512;
-      const aspectRatio = video.videoHeight / video.videoWidth;
+      const targetWidth = capture.width;
+      const aspectRatio = frame.height / frame.width;
       
       if (!Number.isFinite(aspectRatio)) return null;
 
@@ -34,73 +92,183 @@ export const LiveFeed = forwardRef<LiveFeedHandle, LiveFeedProps>(({ isActive, o
       const ctx = canvas.getContext('2d');
       if (!ctx) return null;
       
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      const url = canvas.toDataURL('image/jpeg', 0.8);
+      ctx.drawImage(frame.element, 0, 0, canvas.width, canvas.height);
+      paintExclusions(ctx, canvas.width, canvas.height, regions);
+      const url = canvas.toDataURL(mimeType, capture.quality);
       if (!url || url === "data:,") return null;
       return url; 
+    },
+    getSignature: () => {
+      if (!signatureCanvasRef.current) return null;
+      const frame = getFrameElement();
+      if (!frame) return null;
+      return computeFrameSignature(frame.element, signatureCanvasRef.current, regions);
+    },
+    getRegionCrops: () => {
+      if (!cropCanvasRef.current) return [];
+      const frame = getFrameElement();
+      if (!frame) return [];
+      return captureRegionCrops(frame.element, frame.width, frame.height, regions, cropCanvasRef.current, capture.quality, mimeType);
+    },
+    takeBurst: (count: number) => frameRingRef.current.take(count),
+    getDetectionFrame: () => {
+      const canvas = detectionCanvasRef.current;
+      const frame = getFrameElement();
+      if (!canvas || !frame) return null;
+      canvas.width = DETECTION_INPUT_WIDTH;
+      canvas.height = Math.round(DETECTION_INPUT_WIDTH * frame.height / frame.width);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
+      ctx.drawImage(frame.element, 0, 0, canvas.width, canvas.height);
+      // Masked areas are never described, so they should not produce objects either.
+      paintExclusions(ctx, canvas.width, canvas.height, regions);
+      return canvas;
     }
   }));
 
+  // Samples small frames into the ring between analysis ticks, only while bursts are on.
+  const isBurstOn = isActive && burst.mode !== 'off';
+  useEffect(() => {
+    const ring = frameRingRef.current;
+    ring.clear();
+    if (!isBurstOn) return;
+    const timer = setInterval(() => {
+      const canvas = burstCanvasRef.current;
+      const frame = getFrameElement();
+      if (!canvas || !frame) return;
+      canvas.width = BURST_FRAME_WIDTH;
+      canvas.height = Math.round(BURST_FRAME_WIDTH * frame.height / frame.width);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(frame.element, 0, 0, canvas.width, canvas.height);
+      paintExclusions(ctx, canvas.width, canvas.height, regions);
+      ring.push({ image: canvas.toDataURL(mimeType, capture.quality), capturedAt: Date.now() });
+    }, burst.sampleIntervalMs);
+    return () => clearInterval(timer);
+  }, [isBurstOn, burst.sampleIntervalMs, regions, mimeType, capture.quality, source]);
+
   useEffect(() => {
+    const video = videoRef.current;
+    const image = imageRef.current;
+    if (!video || !image) return;
+
     let stream: MediaStream | null = null;
-    const startCamera = async () => {
+    let sequenceTimer: ReturnType<typeof setInterval> | null = null;
+    const objectUrls: string[] = [];
+    let cancelled = false;
+
+    const startSource = async () => {
+      onStreamReady(false);
       try {
-        stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { 
-            width: { ideal: 640 },
-            height: { ideal: 480 },
-            facingMode: 'user'
-          } 
-        });
-        const video = videoRef.current;
-        if (!video) return;
-        video.srcObject = stream;
+        if (source.kind === 'images') {
+          objectUrls.push(...source.files.map(file => URL.createObjectURL(file)));
+          let index = 0;
+          image.onload = () => {
+            if (cancelled) return;
+            const ready = image.naturalWidth > 0 && image.naturalHeight > 0;
+            if (ready) setFrameAspect(image.naturalWidth / image.naturalHeight);
+            onStreamReady(ready);
+          };
+          image.src = objectUrls[0];
+          sequenceTimer = setInterval(() => {
+            index = (index + 1) % objectUrls.length;
+            image.src = objectUrls[index];
+          }, source.frameDurationMs);
+          return;
+        }
+
+        if (source.kind === 'video') {
+          const url = URL.createObjectURL(source.file);
+          objectUrls.push(url);
+          video.loop = true;
+          video.src = url;
+        } else {
+          stream = await acquireStream(source, { width: cameraWidth, height: cameraHeight });
+          if (cancelled) {
+            stream?.getTracks().forEach(track => track.stop());
+            return;
+          }
+          video.loop = false;
+          video.srcObject = stream;
+          // Screen shares can be ended from the browser UI at any time.
+          stream?.getVideoTracks()[0]?.addEventListener('ended', () => onStreamReady(false));
+        }
+
         const onReady = async () => {
             try { await video.play(); } catch (e) { console.warn("Video play failed:", e); }
-            onStreamReady(video.videoWidth > 0 && video.videoHeight > 0);
+            if (cancelled) return;
+            const ready = video.videoWidth > 0 && video.videoHeight > 0;
+            if (ready) setFrameAspect(video.videoWidth / video.videoHeight);
+            onStreamReady(ready);
         };
         video.onloadedmetadata = onReady;
       } catch (err) {
-        console.error("Error accessing webcam:", err);
+        console.error(`Error accessing ${source.kind} source:`, err);
         onStreamReady(false);
       }
     };
 
     if (isActive) {
-      startCamera();
+      startSource();
     } else {
-      const video = videoRef.current;
-      if (video && video.srcObject) {
-        const tracks = (video.srcObject as MediaStream).getTracks();
-        tracks.forEach(track => track.stop());
-        video.srcObject = null;
-      }
       onStreamReady(false);
     }
     return () => {
+      cancelled = true;
       if (stream) stream.getTracks().forEach(track => track.stop());
+      if (sequenceTimer) clearInterval(sequenceTimer);
+      video.onloadedmetadata = null;
+      video.srcObject = null;
+      video.removeAttribute('src');
+      image.onload = null;
+      image.removeAttribute('src');
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
     };
-  }, [isActive, onStreamReady]);
+  }, [isActive, source, onStreamReady, cameraWidth, cameraHeight]);
+
+  const mediaClassName = `w-full h-full object-cover transition-opacity duration-500 ${
+      isActive 
+      ? 'opacity-90 grayscale-[0.2] contrast-[1.05]' 
+      : 'opacity-0'
+  }`;
 
   return (
     <div className="relative w-full h-full bg-[#1a1a1a] overflow-hidden crt-overlay">
       <canvas ref={canvasRef} className="hidden" />
+      <canvas ref={signatureCanvasRef} className="hidden" />
+      <canvas ref={cropCanvasRef} className="hidden" />
+      <canvas ref={burstCanvasRef} className="hidden" />
+      <canvas ref={detectionCanvasRef} className="hidden" />
       
       {/* Moving Scanline Bar */}
       <div className="scanline-anim"></div>
 
-      {/* Video Feed */}
+      {/* Video Feed (camera, screen, video file) */}
       <video
         ref={videoRef}
         playsInline
         muted
-        className={`w-full h-full object-cover transition-opacity duration-500 ${
-            isActive 
-            ? 'opacity-90 grayscale-[0.2] contrast-[1.05]' 
-            : 'opacity-0'
-        }`}
+        className={`${mediaClassName} ${isImageSequence ? 'hidden' : ''}`}
+      />
+
+      {/* Image Sequence */}
+      <img
+        ref={imageRef}
+        alt=""
+        className={`${mediaClassName} ${isImageSequence ? '' : 'hidden'}`}
       />
       
+      {/* Regions of interest / exclusion masks / tracked objects */}
+      {isActive && (
+        <RegionOverlay
+          regions={regions}
+          objects={trackedObjects}
+          frameAspect={frameAspect}
+          editKind={regionEditKind}
+          onDraw={onRegionDrawn}
+        />
+      )}
+
       {/* Idle State */}
       {!isActive && (
         <div className="absolute inset-0 flex flex-col items-center justify-center z-10 bg-[#e0e0e0]">
@@ -115,11 +283,13 @@ export const LiveFeed = forwardRef<LiveFeedHandle, LiveFeedProps>(({ isActive, o
       {isActive && (
           <div className="absolute top-4 left-4 flex gap-2 z-30 items-center">
             <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse shadow-[0_0_8px_rgba(239,68,68,0.6)]"></div>
-            <span className="text-[10px] font-bold tracking-widest live-glow-text">LIVE FEED</span>
+            <span className="text-[10px] font-bold tracking-widest live-glow-text">
+              {source.kind === 'camera' ? 'LIVE FEED' : source.kind === 'screen' ? 'SCREEN' : 'PLAYBACK'}
+            </span>
           </div>
       )}
     </div>
   );
 });
 
-LiveFeed.displayName = 'LiveFeed';
\ No newline at end of file
+LiveFeed.displayName = 'LiveFeed';
@@ -0,0 +1,137 @@
+import React from 'react';
+import { ScanFace } from 'lucide-react';
+import { isFaceDetectionSupported, PrivacySettings, RedactionStyle } from '../services/privacyFilter';
+
+/** The last frame that actually left the browser, for the user to inspect. */
+export interface UploadPreview {
+  image: string;
+  faces: number;
+  zones: number;
+  timestamp: Date;
+}
+
+interface PrivacyPanelProps {
+  settings: PrivacySettings;
+  onChange: (patch: Partial<PrivacySettings>) => void;
+  lastUpload: UploadPreview | null;
+  privateZoneCount: number;
+  /** Extra cameras are held, not masked, while private zones are set. */
+  extraCameraCount: number;
+  onEditZones: () => void;
+}
+
+const STYLES: { id: RedactionStyle; label: string }[] = [
+  { id: 'blur', label: 'Blur' },
+  { id: 'black', label: 'Black Box' },
+];
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const Toggle: React.FC<{ label: string; hint: string; value: boolean; disabled?: boolean; onChange: (value: boolean) => void }> = ({
+  label, hint, value, disabled, onChange,
+}) => (
+  <div className={`flex items-start gap-3 ${disabled ? 'opacity-50' : ''}`}>
+    <button
+      onClick={() => onChange(!value)}
+      disabled={disabled}
+      className="flex-none mt-0.5 w-10 h-6 rounded-full neu-pressed relative"
+    >
+      <span className={`absolute top-1 w-4 h-4 rounded-full transition-all ${value ? 'left-5 bg-purple-500' : 'left-1 bg-gray-400'}`}></span>
+    </button>
+    <div>
+      <p className="text-sm font-bold text-gray-700">{label}</p>
+      <p className="text-xs text-gray-500">{hint}</p>
+    </div>
+  </div>
+);
+
+export const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ settings, onChange, lastUpload, privateZoneCount, extraCameraCount, onEditZones }) => {
+  const detectorSupported = isFaceDetectionSupported();
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-gray-500 px-1">
+        Runs on this device between capture and upload. Faces and private zones are redacted before any frame,
+        crop or recorded session frame leaves the browser.
+      </p>
+
+      <div className="neu-flat rounded-2xl p-4 space-y-4">
+        <Toggle
+          label="Privacy Filter"
+          hint="Redact every frame before it is sent to the vision model."
+          value={settings.enabled}
+          onChange={(enabled) => onChange({ enabled })}
+        />
+        <Toggle
+          label="Redact Faces"
+          hint={detectorSupported
+            ? 'Uses the browser face detector.'
+            : 'This browser has no face detector (try Chrome with experimental web platform features).'}
+          value={settings.detectFaces}
+          disabled={!settings.enabled || (!detectorSupported && !settings.detectFaces)}
+          onChange={(detectFaces) => onChange({ detectFaces })}
+        />
+        <Toggle
+          label="Fail Closed"
+          hint="If faces cannot be detected, hold frames back instead of sending them unredacted."
+          value={settings.failClosed}
+          disabled={!settings.enabled || !settings.detectFaces}
+          onChange={(failClosed) => onChange({ failClosed })}
+        />
+      </div>
+
+      {settings.enabled && !detectorSupported && (
+        <p className={`neu-pressed rounded-xl px-4 py-3 text-xs font-bold ${settings.detectFaces && settings.failClosed ? 'text-red-500' : 'text-amber-600'}`}>
+          {!settings.detectFaces
+            ? 'Face redaction is unavailable in this browser, so faces are uploaded as they are. Only private zones are redacted.'
+            : settings.failClosed
+              ? 'Face redaction is unavailable in this browser, so every frame is being held back. Turn off Redact Faces to upload with only private zones redacted.'
+              : 'Face redaction is unavailable in this browser, so frames are uploaded with faces unredacted.'}
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        {STYLES.map(style => (
+          <button
+            key={style.id}
+            onClick={() => onChange({ style: style.id })}
+            className={`flex-1 h-10 rounded-xl font-bold uppercase text-xs tracking-widest transition-colors ${
+              settings.style === style.id ? 'neu-pressed text-purple-600' : 'neu-convex neu-btn text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {style.label}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={onEditZones}
+        className="w-full h-10 neu-convex neu-btn rounded-xl font-bold text-gray-600 uppercase text-xs tracking-widest flex items-center justify-center gap-2 hover:text-gray-900"
+      >
+        <ScanFace className="w-4 h-4" /> {privateZoneCount} Private Zone{privateZoneCount === 1 ? '' : 's'} · Edit
+      </button>
+      {settings.enabled && privateZoneCount > 0 && extraCameraCount > 0 && (
+        <p className="text-xs text-purple-600 font-bold px-1">
+          Private zones only cover the main camera. While any are set, the {extraCameraCount} extra camera{extraCameraCount === 1 ? '' : 's'} upload nothing.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <span className="text-[10px] font-bold text-gray-400 ml-2 uppercase tracking-widest">Last Uploaded Frame</span>
+        {lastUpload ? (
+          <div className="neu-pressed rounded-2xl p-2 space-y-2">
+            <img src={lastUpload.image} alt="Last uploaded frame" className="w-full rounded-xl" />
+            <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500 px-1">
+              {formatTime(lastUpload.timestamp)} · {lastUpload.faces} face{lastUpload.faces === 1 ? '' : 's'} · {lastUpload.zones} zone{lastUpload.zones === 1 ? '' : 's'} redacted
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400 text-center py-4">
+            {settings.enabled ? 'Nothing sent yet.' : 'Enable the filter to preview what gets sent.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
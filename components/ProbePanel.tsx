@@ -0,0 +1,70 @@
+import React from 'react';
+import { FlaskConical, RotateCcw } from 'lucide-react';
+import { DEFAULT_PROBE_PAYLOAD, ProbeConfig } from '../services/probeMode';
+
+interface ProbePanelProps {
+  config: ProbeConfig;
+  onChange: (config: ProbeConfig) => void;
+  /** Cycles analyzed in the current session, for orientation. */
+  currentCycle: number;
+}
+
+export const ProbePanel: React.FC<ProbePanelProps> = ({ config, onChange, currentCycle }) => {
+  const update = (patch: Partial<ProbeConfig>) => onChange({ ...config, ...patch });
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-gray-500 px-1">
+        Probe mode deliberately appends an instruction to the vision prompt every N analyzed cycles.
+        Use it to test how the voice agent handles confusing context. Probed observations are tagged
+        <span className="mx-1 text-[10px] font-bold border border-amber-500 text-amber-600 px-1 rounded">PROBE</span>
+        in the Logic Stream.
+      </p>
+
+      <button
+        onClick={() => update({ enabled: !config.enabled })}
+        className={`w-full h-12 neu-convex neu-btn rounded-xl font-bold uppercase text-sm tracking-widest flex items-center justify-center gap-2 transition-colors ${
+          config.enabled ? 'text-amber-600' : 'text-gray-600 hover:text-gray-900'
+        }`}
+      >
+        <FlaskConical className="w-4 h-4" />
+        {config.enabled ? 'Probe Mode On' : 'Probe Mode Off'}
+      </button>
+
+      <div className="space-y-2">
+        <label className="text-xs font-bold text-gray-400 ml-2 uppercase tracking-wide">Every N Cycles</label>
+        <div className="neu-pressed rounded-xl px-4 py-3 flex items-center gap-3">
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={config.everyNCycles}
+            onChange={(e) => update({ everyNCycles: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+            className="bg-transparent w-full outline-none text-gray-700 text-sm"
+          />
+          <span className="flex-none text-xs text-gray-400">cycle {currentCycle}</span>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-xs font-bold text-gray-400 ml-2 uppercase tracking-wide">Payload</label>
+          <button
+            onClick={() => update({ payload: DEFAULT_PROBE_PAYLOAD })}
+            className="text-gray-400 hover:text-gray-700"
+            title="Restore default payload"
+          >
+            <RotateCcw className="w-3 h-3" />
+          </button>
+        </div>
+        <div className="neu-pressed rounded-xl px-4 py-3">
+          <textarea
+            value={config.payload}
+            onChange={(e) => update({ payload: e.target.value })}
+            className="bg-transparent w-full outline-none text-gray-700 font-mono text-xs h-32 resize-y"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { PromptProfile } from '../types';
+
+interface ProfilePanelProps {
+  profiles: PromptProfile[];
+  activeProfileId: string;
+  onSelect: (id: string) => void;
+  onSave: (profile: PromptProfile) => void;
+  onDuplicate: (profile: PromptProfile) => void;
+  onDelete: (id: string) => void;
+  onReset: (id: string) => void;
+}
+
+const fieldLabel = "text-xs font-bold text-gray-400 ml-2 uppercase tracking-wide";
+const fieldBox = "neu-pressed rounded-xl px-4 py-3";
+const fieldInput = "bg-transparent w-full outline-none text-gray-700 text-sm placeholder-gray-400";
+
+export const ProfilePanel: React.FC<ProfilePanelProps> = ({
+  profiles,
+  activeProfileId,
+  onSelect,
+  onSave,
+  onDuplicate,
+  onDelete,
+  onReset,
+}) => {
+  const active = profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+  const [draft, setDraft] = useState<PromptProfile>(active);
+
+  useEffect(() => {
+    setDraft(active);
+  }, [active]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(active);
+  const update = (patch: Partial<PromptProfile>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => onSelect(profile.id)}
+            className={`w-full px-4 py-3 rounded-xl flex items-center justify-between text-left transition-colors ${
+              profile.id === active.id ? 'neu-pressed text-gray-800' : 'neu-convex neu-btn text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <span className="text-sm font-bold truncate">{profile.name}</span>
+            <span className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+              {profile.builtIn ? 'Built-in' : 'Custom'}
+              {profile.id === active.id && <Check className="w-4 h-4 text-green-600" />}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <label className={fieldLabel}>Name</label>
+          <div className={fieldBox}>
+            <input className={fieldInput} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className={fieldLabel}>System Instruction</label>
+          <div className={fieldBox}>
+            <textarea
+              className={`${fieldInput} font-mono text-xs h-48 resize-y`}
+              value={draft.systemInstruction}
+              onChange={(e) => update({ systemInstruction: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className={fieldLabel}>Sensitivity Guidance</label>
+          <div className={fieldBox}>
+            <textarea
+              className={`${fieldInput} font-mono text-xs h-24 resize-y`}
+              value={draft.sensitivity}
+              onChange={(e) => update({ sensitivity: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className={fieldLabel}>Temperature</label>
+            <div className={fieldBox}>
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.05}
+                className={fieldInput}
+                value={draft.temperature}
+                onChange={(e) => update({ temperature: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className={fieldLabel}>Max Output Tokens</label>
+            <div className={fieldBox}>
+              <input
+                type="number"
+                min={32}
+                max={2048}
+                step={8}
+                className={fieldInput}
+                value={draft.maxOutputTokens}
+                onChange={(e) => update({ maxOutputTokens: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500 px-1">
+          The JSON output format is appended automatically and does not need to be part of the instruction.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!isDirty || !draft.name.trim()}
+            className="flex-1 h-10 neu-convex neu-btn rounded-xl font-bold text-gray-600 uppercase text-xs tracking-widest hover:text-blue-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" /> Save
+          </button>
+          <button
+            onClick={() => onDuplicate(draft)}
+            className="w-10 h-10 neu-convex neu-btn rounded-xl flex items-center justify-center text-gray-500 hover:text-gray-800"
+            title="Duplicate as new profile"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          {active.builtIn ? (
+            <button
+              onClick={() => onReset(active.id)}
+              className="w-10 h-10 neu-convex neu-btn rounded-xl flex items-center justify-center text-gray-500 hover:text-gray-800"
+              title="Restore built-in defaults"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              onClick={() => onDelete(active.id)}
+              className="w-10 h-10 neu-convex neu-btn rounded-xl flex items-center justify-center text-gray-500 hover:text-red-500"
+              title="Delete profile"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FrameRegion, RegionOfInterest } from '../types';
+import { rectFromPoints } from '../services/regions';
+import { TrackedObject } from '../services/objectTracker';
+
+interface RegionOverlayProps {
+  regions: RegionOfInterest[];
+  /** Boxes from the local object tracker. */
+  objects?: TrackedObject[];
+  /** Frame width / height, needed to undo the object-cover crop of the video. */
+  frameAspect: number | null;
+  /** Region kind being drawn, or null when not editing. */
+  editKind: RegionOfInterest['kind'] | null;
+  onDraw: (kind: RegionOfInterest['kind'], rect: FrameRegion) => void;
+}
+
+type Box = { left: number; top: number; width: number; height: number };
+
+const KIND_STYLES: Record<RegionOfInterest['kind'], { box: string; tag: string; pending: string }> = {
+  include: { box: 'border-green-400/80 bg-green-400/5', tag: 'bg-green-500/80', pending: 'border-green-300' },
+  exclude: { box: 'border-red-500/80 bg-black/70', tag: 'bg-red-600/80', pending: 'border-red-400' },
+  private: { box: 'border-purple-400/80 bg-purple-400/10', tag: 'bg-purple-500/80', pending: 'border-purple-300' },
+};
+
+/**
+ * Draws regions of interest and tracked objects over the feed, and lets
+ * the user drag out new regions. Positions are fractions of the source frame, so the overlay lays
+ * itself out over the (object-cover scaled) frame, not the container.
+ */
+export const RegionOverlay: React.FC<RegionOverlayProps> = ({ regions, objects = [], frameAspect, editKind, onDraw }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState<Box | null>(null);
+  const [drag, setDrag] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !frameAspect) {
+      setBox(null);
+      return;
+    }
+    const layout = () => {
+      const cw = container.clientWidth;
+      const ch = container.clientHeight;
+      // object-cover: scale to fill, centre, overflow hidden.
+      const scale = Math.max(cw / frameAspect, ch);
+      const width = frameAspect * scale;
+      const height = scale;
+      setBox({ left: (cw - width) / 2, top: (ch - height) / 2, width, height });
+    };
+    layout();
+    const observer = new ResizeObserver(layout);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [frameAspect]);
+
+  const toFraction = (e: React.PointerEvent) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - bounds.left) / bounds.width, y: (e.clientY - bounds.top) / bounds.height };
+  };
+
+  const finishDrag = () => {
+    if (drag && editKind) {
+      const rect = rectFromPoints(drag.x0, drag.y0, drag.x1, drag.y1);
+      if (rect) onDraw(editKind, rect);
+    }
+    setDrag(null);
+  };
+
+  const pending = drag ? rectFromPoints(drag.x0, drag.y0, drag.x1, drag.y1) : null;
+  const style = (rect: FrameRegion): React.CSSProperties => ({
+    left: `${rect.x * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${rect.width * 100}%`,
+    height: `${rect.height * 100}%`,
+  });
+
+  return (
+    <div ref={containerRef} className={`absolute inset-0 z-20 overflow-hidden ${editKind ? '' : 'pointer-events-none'}`}>
+      {box && (
+        <div
+          className={`absolute ${editKind ? 'cursor-crosshair' : ''}`}
+          style={box}
+          onPointerDown={(e) => {
+            if (!editKind) return;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            const { x, y } = toFraction(e);
+            setDrag({ x0: x, y0: y, x1: x, y1: y });
+          }}
+          onPointerMove={(e) => {
+            if (!drag) return;
+            const { x, y } = toFraction(e);
+            setDrag({ ...drag, x1: x, y1: y });
+          }}
+          onPointerUp={finishDrag}
+          onPointerCancel={() => setDrag(null)}
+        >
+          {objects.map(object => (
+            <div
+              key={object.id}
+              className={`absolute border-2 border-sky-400/80 transition-all duration-300 ${object.misses > 0 ? 'border-dashed opacity-50' : ''}`}
+              style={style(object.box)}
+            >
+              <span className="absolute top-0 left-0 px-1 text-[10px] font-bold tracking-widest uppercase text-white bg-sky-500/80 whitespace-nowrap">
+                {object.label} #{object.id} · {Math.round(object.score * 100)}%
+              </span>
+            </div>
+          ))}
+          {regions.map(region => (
+            <div
+              key={region.id}
+              className={`absolute border-2 ${KIND_STYLES[region.kind].box}`}
+              style={style(region.rect)}
+            >
+              <span className={`absolute top-0 left-0 px-1 text-[10px] font-bold tracking-widest uppercase text-white ${KIND_STYLES[region.kind].tag}`}>
+                {region.label}
+              </span>
+            </div>
+          ))}
+          {pending && editKind && (
+            <div
+              className={`absolute border-2 border-dashed ${KIND_STYLES[editKind].pending}`}
+              style={style(pending)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
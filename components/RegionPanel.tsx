@@ -0,0 +1,102 @@
+import React from 'react';
+import { Crop, EyeOff, ScanFace, Trash2 } from 'lucide-react';
+import { RegionOfInterest } from '../types';
+import { REGION_KIND_LABELS, RegionSettings } from '../services/regions';
+
+const KIND_COLORS: Record<RegionOfInterest['kind'], string> = {
+  include: 'text-green-600',
+  exclude: 'text-red-500',
+  private: 'text-purple-600',
+};
+
+const NEXT_KIND: Record<RegionOfInterest['kind'], RegionOfInterest['kind']> = {
+  include: 'exclude',
+  exclude: 'private',
+  private: 'include',
+};
+
+interface RegionPanelProps {
+  settings: RegionSettings;
+  onChange: (patch: Partial<RegionSettings>) => void;
+  editKind: RegionOfInterest['kind'] | null;
+  onEditKindChange: (kind: RegionOfInterest['kind'] | null) => void;
+  isFeedLive: boolean;
+}
+
+export const RegionPanel: React.FC<RegionPanelProps> = ({ settings, onChange, editKind, onEditKindChange, isFeedLive }) => {
+  const { regions, sendCrops } = settings;
+  const updateRegion = (id: string, patch: Partial<RegionOfInterest>) =>
+    onChange({ regions: regions.map(region => region.id === id ? { ...region, ...patch } : region) });
+
+  const drawButton = (kind: RegionOfInterest['kind'], label: string, Icon: React.FC<{ className?: string }>) => (
+    <button
+      onClick={() => onEditKindChange(editKind === kind ? null : kind)}
+      disabled={!isFeedLive}
+      className={`flex-1 h-10 rounded-xl font-bold uppercase text-xs tracking-widest flex items-center justify-center gap-2 transition-colors disabled:opacity-50 ${
+        editKind === kind
+          ? `neu-pressed ${KIND_COLORS[kind]}`
+          : 'neu-convex neu-btn text-gray-600 hover:text-gray-900'
+      }`}
+    >
+      <Icon className="w-4 h-4" /> {editKind === kind ? 'Drawing…' : label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-gray-500 px-1">
+        Drag on the feed to draw. <b className="text-green-600">Areas</b> limit change detection to what matters.
+        <b className="text-red-500"> Masks</b> black out a TV, window or screen before diffing and before the frame is sent.
+        <b className="text-purple-600"> Private</b> zones still count as motion but are blurred by the privacy filter before upload.
+        {!isFeedLive && ' Start a live source to draw.'}
+      </p>
+
+      <div className="flex gap-3">
+        {drawButton('include', 'Draw Area', Crop)}
+        {drawButton('exclude', 'Draw Mask', EyeOff)}
+        {drawButton('private', 'Draw Private', ScanFace)}
+      </div>
+
+      <div className="space-y-2">
+        {regions.length === 0 && (
+          <p className="text-sm text-gray-400 text-center py-4">No regions: the whole frame is analyzed.</p>
+        )}
+        {regions.map(region => (
+          <div key={region.id} className="neu-pressed rounded-xl px-4 py-2 flex items-center gap-3">
+            <button
+              onClick={() => updateRegion(region.id, { kind: NEXT_KIND[region.kind] })}
+              className={`flex-none text-[10px] font-bold uppercase tracking-widest w-14 text-left ${KIND_COLORS[region.kind]}`}
+              title="Switch between area, mask and private zone"
+            >
+              {REGION_KIND_LABELS[region.kind]}
+            </button>
+            <input
+              value={region.label}
+              onChange={(e) => updateRegion(region.id, { label: e.target.value })}
+              className="flex-1 bg-transparent outline-none text-sm text-gray-700"
+            />
+            <button
+              onClick={() => onChange({ regions: regions.filter(r => r.id !== region.id) })}
+              className="text-gray-400 hover:text-red-500"
+              title="Delete region"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChange({ sendCrops: !sendCrops })}
+        className={`w-full h-12 neu-convex neu-btn rounded-xl font-bold uppercase text-xs tracking-widest transition-colors ${
+          sendCrops ? 'text-green-600' : 'text-gray-600 hover:text-gray-900'
+        }`}
+      >
+        {sendCrops ? 'Area Crops Sent to Model' : 'Send Areas as Labeled Crops'}
+      </button>
+      <p className="text-xs text-gray-500 px-1">
+        When on, each area also goes to the model as a separate higher-detail crop named by its label. This adds one image per area to every call.
+      </p>
+    </div>
+  );
+};
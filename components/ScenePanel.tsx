@@ -0,0 +1,62 @@
+import React from 'react';
+import { SceneState } from '../services/sceneMemory';
+
+interface ScenePanelProps {
+  scene: SceneState;
+}
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Read-only view of the scene memory that is fed to the vision model.
+ */
+export const ScenePanel: React.FC<ScenePanelProps> = ({ scene }) => {
+  const isEmpty = scene.recent.length === 0 && !scene.summary;
+
+  return (
+    <div className="space-y-6">
+      {isEmpty && (
+        <p className="text-xs text-gray-400 uppercase font-bold tracking-widest text-center py-6">No observations yet</p>
+      )}
+
+      {scene.presentEntities.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-gray-400 ml-2 uppercase tracking-wide">In View</p>
+          <div className="flex flex-wrap gap-2">
+            {scene.presentEntities.map(label => (
+              <span key={label} className="neu-pressed rounded-lg px-3 py-1 text-xs font-bold text-gray-600">{label}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {scene.summary && (
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-gray-400 ml-2 uppercase tracking-wide">
+            Scene Summary
+            {scene.compactedAt && <span className="normal-case font-medium"> · compacted {formatTime(scene.compactedAt)}</span>}
+          </p>
+          <div className="neu-pressed rounded-xl px-4 py-3 text-sm text-gray-700 leading-relaxed">{scene.summary}</div>
+        </div>
+      )}
+
+      {scene.recent.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-gray-400 ml-2 uppercase tracking-wide">Recent Observations</p>
+          <div className="space-y-2">
+            {[...scene.recent].reverse().map(entry => (
+              <div key={entry.timestamp} className="neu-flat rounded-xl px-4 py-3">
+                <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                  <span>{formatTime(entry.timestamp)}</span>
+                  {entry.eventType && <span>{entry.eventType}</span>}
+                </div>
+                <p className="text-sm text-gray-700 mt-1">{entry.summary}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CircleDot, Download, PlayCircle, Square, Trash2 } from 'lucide-react';
+import { RecordedSession } from '../types';
+import { deleteSession, exportSessionJsonl, listSessions } from '../services/sessionRecorder';
+
+interface SessionPanelProps {
+  recordingEnabled: boolean;
+  onToggleRecording: () => void;
+  replayingSessionId: string | null;
+  onReplay: (session: RecordedSession) => void;
+  onStopReplay: () => void;
+  /** Bumped by the parent whenever a recording starts or stops so the list reloads. */
+  refreshToken: number;
+}
+
+const formatDate = (ms: number) =>
+  new Date(ms).toLocaleString('en-US', { hour12: false, month: 'short', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (session: RecordedSession) => {
+  if (!session.endedAt) return 'recording…';
+  const seconds = Math.round((session.endedAt - session.startedAt) / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const SessionPanel: React.FC<SessionPanelProps> = ({
+  recordingEnabled,
+  onToggleRecording,
+  replayingSessionId,
+  onReplay,
+  onStopReplay,
+  refreshToken,
+}) => {
+  const [sessions, setSessions] = useState<RecordedSession[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Recordings unavailable");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshToken]);
+
+  const handleExport = async (session: RecordedSession) => {
+    try {
+      const blob = await exportSessionJsonl(session);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `session-${new Date(session.startedAt).toISOString().replace(/[:.]/g, '-')}.jsonl`;
+      link.click();
+      // Revoking right away can cancel the download in some browsers.
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      setError(null);
+    } catch (err: any) {
+      setError(`Export failed: ${err.message || err}`);
+    }
+  };
+
+  const handleDelete = async (session: RecordedSession) => {
+    try {
+      await deleteSession(session.id);
+      refresh();
+    } catch (err: any) {
+      setError(`Delete failed: ${err.message || err}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <button
+        onClick={onToggleRecording}
+        className={`w-full h-12 neu-convex neu-btn rounded-xl font-bold uppercase text-sm tracking-widest flex items-center justify-center gap-2 transition-colors ${
+          recordingEnabled ? 'text-red-500' : 'text-gray-600 hover:text-gray-900'
+        }`}
+      >
+        <CircleDot className={`w-4 h-4 ${recordingEnabled ? 'animate-pulse' : ''}`} />
+        {recordingEnabled ? 'Recording Armed' : 'Record Sessions'}
+      </button>
+      <p className="text-xs text-gray-500 -mt-3 px-1">
+        While armed, every analyzed frame, model result and agent update is stored locally in this browser.
+      </p>
+
+      {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+
+      <div className="space-y-3">
+        {sessions.length === 0 && (
+          <p className="text-xs text-gray-400 uppercase font-bold tracking-widest text-center py-6">No recordings yet</p>
+        )}
+        {sessions.map(session => {
+          const isReplaying = replayingSessionId === session.id;
+          return (
+            <div key={session.id} className="neu-pressed rounded-xl p-4 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-gray-700 truncate">{session.label}</p>
+                <p className="text-xs text-gray-500">
+                  {formatDate(session.startedAt)} · {formatDuration(session)} · {session.frameCount} frames
+                </p>
+              </div>
+              <div className="flex-none flex items-center gap-1 text-gray-500">
+                <button
+                  onClick={() => isReplaying ? onStopReplay() : onReplay(session)}
+                  disabled={!session.endedAt || session.frameCount === 0}
+                  className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-300 hover:text-gray-800 disabled:opacity-30 transition-colors"
+                  title={isReplaying ? "Stop replay" : "Replay through vision loop"}
+                >
+                  {isReplaying ? <Square className="w-4 h-4 fill-current" /> : <PlayCircle className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleExport(session)}
+                  className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-300 hover:text-gray-800 transition-colors"
+                  title="Export JSONL bundle"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(session)}
+                  disabled={!session.endedAt || isReplaying}
+                  className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-300 hover:text-red-500 disabled:opacity-30 transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
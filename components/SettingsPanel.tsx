@@ -0,0 +1,625 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, RotateCcw, ShieldCheck, Trash2 } from 'lucide-react';
+import { VisionProviderId } from '../types';
+import { AppConfig, resetConfig, updateConfig, updateConfigSection } from '../services/configStore';
+import { CredentialSource, Credentials, maskSecret } from '../services/credentials';
+import { CaptureFormat, CycleEstimate, formatBytes, formatTokens } from '../services/captureSettings';
+import { BurstMode } from '../services/burstCapture';
+import { fetchProxySession, openProxySession, ProxySession } from '../services/proxyService';
+
+interface SettingsPanelProps {
+  config: AppConfig;
+  credentials: Credentials;
+  /** Why the configured provider cannot be created, if it cannot. */
+  providerError: string | null;
+  onRotateCredentials: () => void;
+  onClearCredentials: () => void;
+  onTestGeminiKey: () => Promise<string | null>;
+  onSaveVisionApiKey: (apiKey: string) => void;
+  /** Live cost of one vision call with the current capture settings. */
+  cycleEstimate: CycleEstimate;
+}
+
+const PROVIDERS: { id: VisionProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini (browser key)' },
+  { id: 'proxy', label: 'Backend Proxy' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible' },
+  { id: 'mock', label: 'Mock (offline)' },
+];
+
+const FORMATS: { id: CaptureFormat; label: string }[] = [
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'webp', label: 'WebP' },
+];
+
+const BURST_MODES: { id: BurstMode; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'burst', label: 'Frames' },
+  { id: 'contact-sheet', label: 'Contact Sheet' },
+];
+
+const sectionTitle = "text-xs font-bold text-gray-400 ml-2 uppercase tracking-wide";
+const fieldBox = "neu-pressed rounded-xl px-4 py-2 flex items-center gap-3";
+const fieldInput = "bg-transparent w-full outline-none text-gray-700 text-sm placeholder-gray-400";
+const iconButton = "h-9 px-3 neu-convex neu-btn rounded-xl text-xs font-bold uppercase tracking-widest text-gray-600 hover:text-gray-900 flex items-center gap-2";
+
+const SourceBadge: React.FC<{ source: CredentialSource }> = ({ source }) => (
+  <span className={`flex-none text-[10px] font-bold uppercase tracking-widest ${source === 'none' ? 'text-red-400' : 'text-gray-400'}`}>
+    {source === 'env' ? 'env' : source === 'storage' ? 'browser' : 'missing'}
+  </span>
+);
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min: number;
+  max: number;
+  step: number;
+  /** Display multiplier, e.g. 100 for percentages or 0.001 for ms -> s. */
+  scale?: number;
+  unit?: string;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, min, max, step, scale = 1, unit }) => (
+  <label className="space-y-1 block">
+    <span className="text-[10px] font-bold text-gray-400 ml-2 uppercase tracking-widest">{label}</span>
+    <div className={fieldBox}>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={Number((value * scale).toFixed(3))}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          if (Number.isFinite(next)) onChange(Math.min(max, Math.max(min, next)) / scale);
+        }}
+        className={fieldInput}
+      />
+      {unit && <span className="flex-none text-xs text-gray-400">{unit}</span>}
+    </div>
+  </label>
+);
+
+interface DraftFieldProps {
+  value: string;
+  onCommit: (value: string) => void;
+  placeholder: string;
+}
+
+/**
+ * Text input that only writes to the config on blur or Enter. Vision
+ * fields rebuild the provider, which restarts the loop, so they must not
+ * change on every keystroke.
+ */
+const DraftField: React.FC<DraftFieldProps> = ({ value, onCommit, placeholder }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <div className={fieldBox}>
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => draft !== value && onCommit(draft)}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        placeholder={placeholder}
+        className={fieldInput}
+      />
+    </div>
+  );
+};
+
+/**
+ * Signs this browser in to a proxy started with PROXY_TOKEN. The access
+ * code is sent once and not kept; the proxy's session cookie stands in
+ * for it until it expires.
+ */
+const ProxySessionField: React.FC<{ proxyUrl: string }> = ({ proxyUrl }) => {
+  const [session, setSession] = useState<ProxySession | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  useEffect(() => {
+    setSession(null);
+    setError(null);
+    if (!proxyUrl) return;
+    let cancelled = false;
+    fetchProxySession(proxyUrl).then(
+      result => !cancelled && setSession(result),
+      (err: Error) => !cancelled && setError(`Cannot check the proxy session: ${err.message}`)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [proxyUrl]);
+
+  const signIn = async () => {
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      const expiresAt = await openProxySession(proxyUrl, code);
+      setSession({ required: true, active: true, expiresAt });
+      setCode('');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  if (error && !session) return <p className="text-xs font-bold text-red-500 px-1">{error}</p>;
+  if (!session?.required) return null;
+  if (session.active) {
+    return (
+      <p className="text-xs font-bold text-gray-500 px-1">
+        Signed in to the proxy{session.expiresAt ? ` until ${new Date(session.expiresAt).toLocaleTimeString()}` : ''}.
+      </p>
+    );
+  }
+  return (
+    <>
+      <div className="flex gap-2">
+        <div className={`${fieldBox} flex-1`}>
+          <input
+            type="password"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && code && signIn()}
+            placeholder="Proxy access code"
+            className={fieldInput}
+          />
+        </div>
+        <button onClick={signIn} disabled={!code || isSigningIn} className={`${iconButton} disabled:opacity-50`}>
+          <KeyRound className="w-3 h-3" /> {isSigningIn ? 'Signing In…' : 'Sign In'}
+        </button>
+      </div>
+      {error && <p className="text-xs font-bold text-red-500 px-1">{error}</p>}
+    </>
+  );
+};
+
+/**
+ * One place for credentials and every tunable that is not a prompt profile
+ * or probe setting (those have their own panels but share the same store).
+ */
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  config,
+  credentials,
+  providerError,
+  onRotateCredentials,
+  onClearCredentials,
+  onTestGeminiKey,
+  onSaveVisionApiKey,
+  cycleEstimate,
+}) => {
+  const [testResult, setTestResult] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [visionApiKey, setVisionApiKey] = useState(credentials.visionApiKey);
+  const [isConfirmingReset, setIsConfirmingReset] = useState(false);
+
+  useEffect(() => {
+    setVisionApiKey(credentials.visionApiKey);
+  }, [credentials.visionApiKey]);
+
+  const { vision, capture, sceneMemory, bridge, degraded } = config;
+  const scheduler = capture.scheduler;
+  const frame = capture.frame;
+  const burst = capture.burst;
+
+  const updateScheduler = (patch: Partial<AppConfig['capture']['scheduler']>) =>
+    updateConfig(c => ({ ...c, capture: { ...c.capture, scheduler: { ...c.capture.scheduler, ...patch } } }));
+  const updateFrame = (patch: Partial<AppConfig['capture']['frame']>) =>
+    updateConfig(c => ({ ...c, capture: { ...c.capture, frame: { ...c.capture.frame, ...patch } } }));
+  const updateBurst = (patch: Partial<AppConfig['capture']['burst']>) =>
+    updateConfig(c => ({ ...c, capture: { ...c.capture, burst: { ...c.capture.burst, ...patch } } }));
+
+  const testKey = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    const error = await onTestGeminiKey();
+    setIsTesting(false);
+    setTestResult(error ?? 'Key is valid.');
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Credentials */}
+      <section className="space-y-3">
+        <p className={sectionTitle}>Credentials</p>
+        <div className={fieldBox}>
+          <KeyRound className="w-4 h-4 text-gray-400 flex-none" />
+          <span className="flex-1 text-sm text-gray-700 font-mono truncate">
+            {credentials.geminiApiKey ? maskSecret(credentials.geminiApiKey) : 'No Gemini key'}
+          </span>
+          <SourceBadge source={credentials.geminiApiKeySource} />
+        </div>
+        <div className={fieldBox}>
+          <span className="text-xs font-bold text-gray-400 flex-none">ID</span>
+          <span className="flex-1 text-sm text-gray-700 font-mono truncate">{credentials.agentId || 'No Agent ID'}</span>
+          <SourceBadge source={credentials.agentIdSource} />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={onRotateCredentials} className={iconButton}>
+            <RotateCcw className="w-3 h-3" /> Rotate
+          </button>
+          <button onClick={testKey} disabled={!credentials.geminiApiKey || isTesting} className={`${iconButton} disabled:opacity-50`}>
+            <ShieldCheck className="w-3 h-3" /> {isTesting ? 'Testing…' : 'Test'}
+          </button>
+          <button onClick={onClearCredentials} className={`${iconButton} hover:text-red-500`}>
+            <Trash2 className="w-3 h-3" /> Clear Stored
+          </button>
+        </div>
+        {testResult && <p className="text-xs font-bold text-gray-500 px-1">{testResult}</p>}
+        <p className="text-xs text-gray-500 px-1">
+          Resolution order: build env, then this browser's storage, then a prompt. Env values cannot be cleared from here.
+        </p>
+      </section>
+
+      {/* Vision provider */}
+      <section className="space-y-3">
+        <p className={sectionTitle}>Vision Provider</p>
+        <div className={fieldBox}>
+          <select
+            value={vision.provider}
+            onChange={(e) => updateConfigSection('vision', { provider: e.target.value as VisionProviderId })}
+            className={`${fieldInput} cursor-pointer`}
+          >
+            {PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </div>
+        {vision.provider !== 'mock' && (
+          <DraftField
+            value={vision.model}
+            onCommit={(model) => updateConfigSection('vision', { model })}
+            placeholder={vision.provider === 'openai-compatible' ? 'Model (required)' : 'Model (provider default)'}
+          />
+        )}
+        {vision.provider === 'openai-compatible' && (
+          <>
+            <DraftField
+              value={vision.baseUrl}
+              onCommit={(baseUrl) => updateConfigSection('vision', { baseUrl })}
+              placeholder="Base URL, e.g. http://localhost:11434/v1"
+            />
+            <div className={fieldBox}>
+              <input
+                type="password"
+                value={visionApiKey}
+                onChange={(e) => setVisionApiKey(e.target.value)}
+                onBlur={() => visionApiKey !== credentials.visionApiKey && onSaveVisionApiKey(visionApiKey)}
+                placeholder="API key (optional)"
+                className={fieldInput}
+              />
+              <SourceBadge source={credentials.visionApiKeySource} />
+            </div>
+          </>
+        )}
+        {vision.provider === 'proxy' && (
+          <>
+            <DraftField
+              value={vision.proxyUrl}
+              onCommit={(proxyUrl) => updateConfigSection('vision', { proxyUrl })}
+              placeholder="Proxy URL, e.g. http://localhost:8787"
+            />
+            <ProxySessionField proxyUrl={vision.proxyUrl} />
+          </>
+        )}
+        {providerError && <p className="text-xs font-bold text-red-500 px-1">{providerError}</p>}
+      </section>
+
+      {/* Capture */}
+      <section className="space-y-3">
+        <p className={sectionTitle}>Capture Loop</p>
+        <div className="grid grid-cols-2 gap-3">
+          <NumberField
+            label="Change Gate"
+            value={capture.changeThreshold}
+            onChange={(changeThreshold) => updateConfigSection('capture', { changeThreshold })}
+            min={0.5} max={20} step={0.5} scale={100} unit="%"
+          />
+          <NumberField
+            label="Idle Cycles"
+            value={scheduler.idleCyclesBeforeBackoff}
+            onChange={(idleCyclesBeforeBackoff) => updateScheduler({ idleCyclesBeforeBackoff: Math.round(idleCyclesBeforeBackoff) })}
+            min={1} max={20} step={1}
+          />
+          <NumberField
+            label="Base Interval"
+            value={scheduler.baseIntervalMs}
+            onChange={(baseIntervalMs) => updateScheduler({ baseIntervalMs })}
+            min={0.5} max={60} step={0.5} scale={0.001} unit="s"
+          />
+          <NumberField
+            label="Min Interval"
+            value={scheduler.minIntervalMs}
+            onChange={(minIntervalMs) => updateScheduler({ minIntervalMs })}
+            min={0.5} max={60} step={0.5} scale={0.001} unit="s"
+          />
+          <NumberField
+            label="Max Interval"
+            value={scheduler.maxIntervalMs}
+            onChange={(maxIntervalMs) => updateScheduler({ maxIntervalMs })}
+            min={1} max={300} step={1} scale={0.001} unit="s"
+          />
+          <NumberField
+            label="Idle Backoff"
+            value={scheduler.idleBackoffFactor}
+            onChange={(idleBackoffFactor) => updateScheduler({ idleBackoffFactor })}
+            min={1} max={4} step={0.1} unit="×"
+          />
+        </div>
+        <p className="text-xs text-gray-500 px-1">Interval changes apply the next time the visual system starts.</p>
+      </section>
+
+      {/* Degraded mode */}
+      <section className="space-y-3">
+        <p className={sectionTitle}>Degraded Mode</p>
+        <button
+          onClick={() => updateConfigSection('degraded', { enabled: !degraded.enabled })}
+          className={`w-full h-10 rounded-xl font-bold uppercase text-xs tracking-widest transition-colors ${
+            degraded.enabled ? 'neu-pressed text-gray-800' : 'neu-convex neu-btn text-gray-500 hover:text-gray-800'
+          }`}
+        >
+          {degraded.enabled ? 'Fallback to Motion Updates: On' : 'Fallback to Motion Updates: Off'}
+        </button>
+        <div className="grid grid-cols-2 gap-3">
+          <NumberField
+            label="After Failures"
+            value={degraded.failureThreshold}
+            onChange={(failureThreshold) => updateConfigSection('degraded', { failureThreshold: Math.round(failureThreshold) })}
+            min={1} max={20} step={1} unit="in a row"
+          />
+          <NumberField
+            label="Probe Every"
+            value={degraded.probeIntervalMs}
+            onChange={(probeIntervalMs) => updateConfigSection('degraded', { probeIntervalMs })}
+            min={5} max={600} step={5} scale={0.001} unit="s"
+          />
+          <NumberField
+            label="Motion Updates"
+            value={degraded.motionUpdateCooldownMs}
+            onChange={(motionUpdateCooldownMs) => updateConfigSection('degraded', { motionUpdateCooldownMs })}
+            min={0} max={300} step={5} scale={0.001} unit="s apart"
+          />
+        </div>
+        <p className="text-xs text-gray-500 px-1">
+          When the vision API keeps failing (unreachable, 401/403, 429, 5xx), the loop stops calling it and sends the agent
+          short motion updates from the local pixel diff instead, while probing the API in the background until it answers again.
+        </p>
+      </section>
+
+      {/* Frame capture */}
+      <section className="space-y-3">
+        <p className={sectionTitle}>Frame Capture</p>
+        <div className="grid grid-cols-2 gap-3">
+          <NumberField
+            label="Upload Width"
+            value={frame.width}
+            onChange={(width) => updateFrame({ width: Math.round(width) })}
+            min={128} max={1536} step={64} unit="px"
+          />
+          <NumberField
+            label="Quality"
+            value={frame.quality}
+            onChange={(quality) => updateFrame({ quality })}
+            min={10} max={100} step={5} scale={100} unit="%"
+          />
+          <NumberField
+            label="Camera Width"
+            value={frame.cameraWidth}
+            onChange={(cameraWidth) => updateFrame({ cameraWidth: Math.round(cameraWidth) })}
+            min={160} max={3840} step={160} unit="px"
+          />
+          <NumberField
+            label="Camera Height"
+            value={frame.cameraHeight}
+            onChange={(cameraHeight) => updateFrame({ cameraHeight: Math.round(cameraHeight) })}
+            min={120} max={2160} step={120} unit="px"
+          />
+        </div>
+        <div className="flex gap-3">
+          {FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => updateFrame({ format: format.id })}
+              className={`flex-1 h-10 rounded-xl font-bold uppercase text-xs tracking-widest transition-colors ${
+                frame.format === format.id ? 'neu-pressed text-gray-800' : 'neu-convex neu-btn text-gray-500 hover:text-gray-800'
+              }`}
+            >
+              {format.label}
+            </button>
+          ))}
+          <button
+            onClick={() => updateFrame({ sendPreviousFrame: !frame.sendPreviousFrame })}
+            className={`flex-[2] h-10 rounded-xl font-bold uppercase text-xs tracking-widest transition-colors ${
+              frame.sendPreviousFrame ? 'neu-pressed text-gray-800' : 'neu-convex neu-btn text-gray-500 hover:text-gray-800'
+            }`}
+            title="Send the previous frame with each call so the model can compare visually"
+          >
+            {frame.sendPreviousFrame ? 'Prev Frame: Sent' : 'Prev Frame: Off'}
+          </button>
+        </div>
+        <div className="neu-pressed rounded-xl px-4 py-3 grid grid-cols-2 gap-x-4 gap-y-1 text-xs font-mono text-gray-600">
+          <span className="text-gray-400">per cycle</span>
+          <span className="text-right">
+            {cycleEstimate.measured ? '' : '~'}{formatBytes(cycleEstimate.bytesPerCycle)} · {formatTokens(cycleEstimate.inputTokensPerCycle)} in + ≤{formatTokens(cycleEstimate.outputTokensPerCycle)} out
+          </span>
+          <span className="text-gray-400">per hour (max)</span>
+          <span className="text-right">
+            {formatBytes(cycleEstimate.bytesPerHour)} · {formatTokens(cycleEstimate.tokensPerHour)} tok
+          </span>
+        </div>
+        <p className="text-xs text-gray-500 px-1">
+          Hourly figures assume a call every cycle at the current interval ({Math.round(cycleEstimate.cyclesPerHour)}/h); the change gate usually skips most.
+          Sizes marked ~ are guesses until a frame has been sent. Changing the camera resolution restarts the camera.
+        </p>
+      </section>
+
+      {/* Burst */}
+      <section className="space-y-3">
+        <p className={sectionTitle}>In-Between Frames</p>
+        <div className="flex gap-3">
+          {BURST_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => updateBurst({ mode: mode.id })}
+              className={`flex-1 h-10 rounded-xl font-bold uppercase text-xs tracking-widest transition-colors ${
+                burst.mode === mode.id ? 'neu-pressed text-gray-800' : 'neu-convex neu-btn text-gray-500 hover:text-gray-800'
+              }`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        {burst.mode !== 'off' && (
+          <div className="grid grid-cols-2 gap-3">
+            <NumberField
+              label="Frames Sent"
+              value={burst.frames}
+              onChange={(frames) => updateBurst({ frames: Math.round(frames) })}
+              min={1} max={9} step={1}
+            />
+            <NumberField
+              label="Sample Every"
+              value={burst.sampleIntervalMs}
+              onChange={(sampleIntervalMs) => updateBurst({ sampleIntervalMs })}
+              min={0.2} max={5} step={0.1} scale={0.001} unit="s"
+            />
+          </div>
+        )}
+        <p className="text-xs text-gray-500 px-1">
+          Keeps small frames sampled between ticks so short actions, like picking something up and putting it back, are not missed.
+          Frames sends each one as its own image; a contact sheet tiles them into one. Both add to every call (see the estimate above).
+        </p>
+      </section>
+
+      {/* Scene memory */}
+      <section className="space-y-3">
+        <p className={sectionTitle}>Scene Memory</p>
+        <div className="grid grid-cols-2 gap-3">
+          <NumberField
+            label="Rolling Log"
+            value={sceneMemory.maxEntries}
+            onChange={(maxEntries) => updateConfigSection('sceneMemory', { maxEntries: Math.round(maxEntries) })}
+            min={2} max={50} step={1} unit="entries"
+          />
+          <NumberField
+            label="Compact Batch"
+            value={sceneMemory.compactBatch}
+            onChange={(compactBatch) => updateConfigSection('sceneMemory', { compactBatch: Math.round(compactBatch) })}
+            min={1} max={25} step={1} unit="entries"
+          />
+          <NumberField
+            label="Digests Kept"
+            value={sceneMemory.summaryHistory}
+            onChange={(summaryHistory) => updateConfigSection('sceneMemory', { summaryHistory: Math.round(summaryHistory) })}
+            min={1} max={20} step={1}
+          />
+          <NumberField
+            label="Entity Expiry"
+            value={sceneMemory.entityTtl}
+            onChange={(entityTtl) => updateConfigSection('sceneMemory', { entityTtl: Math.round(entityTtl) })}
+            min={1} max={50} step={1} unit="obs."
+          />
+        </div>
+        <p className="text-xs text-gray-500 px-1">
+          Overflowing log entries are rolled up a batch at a time into one digest (events, entities, last description).
+          An entity counts as present until it exits or goes unmentioned for the expiry number of observations.
+        </p>
+      </section>
+
+      {/* Voice bridge */}
+      <section className="space-y-3">
+        <p className={sectionTitle}>Voice Bridge Queue</p>
+        <div className="grid grid-cols-2 gap-3">
+          <NumberField
+            label="Max Age"
+            value={bridge.maxAgeMs}
+            onChange={(maxAgeMs) => updateConfigSection('bridge', { maxAgeMs })}
+            min={5} max={600} step={5} scale={0.001} unit="s"
+          />
+          <NumberField
+            label="Max Depth"
+            value={bridge.maxDepth}
+            onChange={(maxDepth) => updateConfigSection('bridge', { maxDepth: Math.round(maxDepth) })}
+            min={1} max={50} step={1} unit="updates"
+          />
+        </div>
+        <p className="text-xs text-gray-500 px-1">Applies from the next voice session.</p>
+      </section>
+
+      {/* Logic stream */}
+      <section className="space-y-3">
+        <p className={sectionTitle}>Logic Stream</p>
+        <NumberField
+          label="Retention"
+          value={config.timeline.retention}
+          onChange={(retention) => updateConfigSection('timeline', { retention: Math.round(retention) })}
+          min={100} max={20000} step={100} unit="entries"
+        />
+        <div className="flex gap-3">
+          <button
+            onClick={() => updateConfigSection('timeline', { thumbnails: !config.timeline.thumbnails })}
+            className={`flex-1 h-10 rounded-xl font-bold uppercase text-xs tracking-widest transition-colors ${
+              config.timeline.thumbnails ? 'neu-pressed text-gray-800' : 'neu-convex neu-btn text-gray-500 hover:text-gray-800'
+            }`}
+          >
+            {config.timeline.thumbnails ? 'Thumbnails: On' : 'Thumbnails: Off'}
+          </button>
+          <button
+            onClick={() => updateConfigSection('timeline', { beforeAfter: !config.timeline.beforeAfter })}
+            disabled={!config.timeline.thumbnails}
+            className={`flex-1 h-10 rounded-xl font-bold uppercase text-xs tracking-widest transition-colors disabled:opacity-50 ${
+              config.timeline.beforeAfter ? 'neu-pressed text-gray-800' : 'neu-convex neu-btn text-gray-500 hover:text-gray-800'
+            }`}
+          >
+            {config.timeline.beforeAfter ? 'Before/After: On' : 'Before/After: Off'}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 px-1">
+          Older log lines and transcript messages are dropped beyond this. Export first if you need them.
+          Thumbnails (320px) of the frame each observation describes are kept with the entry; they count against memory, not the export.
+        </p>
+      </section>
+
+      {isConfirmingReset ? (
+        <section className="space-y-3">
+          <p className="text-xs text-gray-500 px-1">
+            Every setting above, plus probe, privacy, detection and budget settings, goes back to its default.
+            Prompt profiles, trigger rules, regions and cameras are kept.
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setIsConfirmingReset(false)}
+              className="flex-1 h-10 neu-convex neu-btn rounded-xl font-bold text-gray-500 uppercase text-xs tracking-widest hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => {
+                resetConfig();
+                setIsConfirmingReset(false);
+              }}
+              className="flex-1 h-10 neu-convex neu-btn rounded-xl font-bold text-red-500 uppercase text-xs tracking-widest hover:text-red-600"
+            >
+              Reset Settings
+            </button>
+          </div>
+        </section>
+      ) : (
+        <button
+          onClick={() => setIsConfirmingReset(true)}
+          className="w-full h-10 neu-convex neu-btn rounded-xl font-bold text-gray-500 uppercase text-xs tracking-widest hover:text-red-500"
+        >
+          Reset Settings
+        </button>
+      )}
+    </div>
+  );
+};
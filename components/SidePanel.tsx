@@ -0,0 +1,42 @@
+import React, { ReactNode } from 'react';
+import { X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+interface SidePanelProps {
+  title: string;
+  isOpen: boolean;
+  onClose: () => void;
+  children?: ReactNode;
+}
+
+/**
+ * Slide-over drawer used for secondary tools (sessions, settings, ...).
+ */
+export const SidePanel: React.FC<SidePanelProps> = ({ title, isOpen, onClose, children }) => {
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.aside
+          initial={{ opacity: 0, x: 40 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 40 }}
+          className="fixed top-24 right-8 bottom-36 w-[420px] max-w-[calc(100vw-4rem)] z-40 neu-flat rounded-[24px] flex flex-col overflow-hidden"
+        >
+          <div className="flex-none flex items-center justify-between px-6 py-4">
+            <h2 className="text-sm font-bold text-gray-500 uppercase tracking-wider">{title}</h2>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-300 text-gray-500 transition-colors"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex-1 min-h-0 overflow-y-auto px-6 pb-6">
+            {children}
+          </div>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FeedSource } from '../types';
+import { CameraSource, createImageSequenceSource, createVideoFileSource, listCameras } from '../services/feedSources';
+
+interface SourcePickerProps {
+  source: FeedSource;
+  onChange: (source: FeedSource) => void;
+  /** Re-enumerate devices when this flips (labels appear once permission is granted). */
+  isStreamReady: boolean;
+}
+
+const CURRENT = '__current__';
+const SCREEN = '__screen__';
+const VIDEO_FILE = '__video_file__';
+const IMAGE_FOLDER = '__image_folder__';
+
+const cameraValue = (deviceId: string | null) => `camera:${deviceId ?? ''}`;
+
+/**
+ * Replaces the static "Active Sensor" label with a picker for cameras,
+ * screen capture, a video file or a folder of images.
+ */
+export const SourcePicker: React.FC<SourcePickerProps> = ({ source, onChange, isStreamReady }) => {
+  const [cameras, setCameras] = useState<CameraSource[]>([]);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const refresh = () => listCameras().then(setCameras).catch(() => setCameras([]));
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, [isStreamReady]);
+
+  const currentValue =
+    source.kind === 'camera' ? cameraValue(source.deviceId)
+    : source.kind === 'screen' ? SCREEN
+    : CURRENT;
+
+  const handleSelect = (value: string) => {
+    if (value === VIDEO_FILE) return videoInputRef.current?.click();
+    if (value === IMAGE_FOLDER) return folderInputRef.current?.click();
+    if (value === SCREEN) return onChange({ kind: 'screen', label: 'Screen Capture' });
+    const camera = cameras.find(c => cameraValue(c.deviceId) === value);
+    if (camera) onChange(camera);
+  };
+
+  const hasCurrentCamera = source.kind !== 'camera' || cameras.some(c => c.deviceId === source.deviceId);
+
+  return (
+    <>
+      <select
+        value={currentValue}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="bg-transparent text-sm font-medium text-gray-700 outline-none max-w-[200px] truncate cursor-pointer"
+      >
+        {source.kind !== 'camera' && source.kind !== 'screen' && <option value={CURRENT}>{source.label}</option>}
+        {!hasCurrentCamera && source.kind === 'camera' && <option value={currentValue}>{source.label}</option>}
+        {cameras.map(camera => (
+          <option key={cameraValue(camera.deviceId)} value={cameraValue(camera.deviceId)}>{camera.label}</option>
+        ))}
+        <option value={SCREEN}>Screen Capture</option>
+        <option value={VIDEO_FILE}>Video File…</option>
+        <option value={IMAGE_FOLDER}>Image Folder…</option>
+      </select>
+
+      <input
+        ref={videoInputRef}
+        type="file"
+        accept="video/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onChange(createVideoFileSource(file));
+          e.target.value = '';
+        }}
+      />
+      <input
+        ref={folderInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        {...{ webkitdirectory: '' }}
+        onChange={(e) => {
+          const next = e.target.files && createImageSequenceSource(e.target.files);
+          if (next) onChange(next);
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+};
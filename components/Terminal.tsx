@@ -1,92 +1,253 @@
-import React, { useEffect, useRef } from 'react';
-import { LogEntry } from '../types';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ArrowDown, Download, Search } from 'lucide-react';
+import { LogEntry, TimelineItem, TranscriptMessage } from '../types';
+import { mergeTimeline } from '../services/transcript';
+import { EMPTY_TIMELINE_FILTER, exportTimeline, filterTimeline, TIMELINE_CATEGORIES, TimelineCategory, TimelineExportFormat } from '../services/timelineView';
+import { VirtualList } from './VirtualList';
 
 interface TerminalProps {
   logs: LogEntry[];
+  transcript: TranscriptMessage[];
+  /** Opens the frame viewer for a visual entry that carries frames. */
+  onOpenEntry?: (entry: LogEntry) => void;
 }
 
-export const Terminal: React.FC<TerminalProps> = ({ logs }) => {
-  const bottomRef = useRef<HTMLDivElement>(null);
+const LogLine: React.FC<{ log: LogEntry; onOpen?: (entry: LogEntry) => void }> = ({ log, onOpen }) => (
+    <>
+      {log.frames && onOpen && (
+          <button
+              onClick={() => onOpen(log)}
+              className="float-right ml-3 mb-1 w-24 rounded overflow-hidden border border-purple-800 hover:border-purple-400 transition-colors"
+              title="Compare with the frame the model saw"
+          >
+              <img src={log.frames.current} alt="" className="w-full block" loading="lazy" />
+          </button>
+      )}
+      {log.probe && (
+          <span className="float-right ml-2 text-xs font-bold border border-amber-500 text-amber-400 px-1 rounded bg-amber-950/40">PROBE</span>
+      )}
+      {log.camera && (
+          <span className="float-right ml-2 text-xs font-bold border border-indigo-500 text-indigo-300 px-1 rounded bg-indigo-950/40 uppercase">{log.camera}</span>
+      )}
+      {log.local && (
+          <span className="float-right ml-2 text-xs font-bold border border-sky-500 text-sky-400 px-1 rounded bg-sky-950/40">LOCAL</span>
+      )}
+      {log.tool && log.type === 'visual' && (
+          <span className="float-right ml-2 text-xs font-bold border border-sky-500 text-sky-400 px-1 rounded bg-sky-950/40 uppercase">{log.tool}</span>
+      )}
 
-  useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [logs]);
+      {log.type === 'visual' && (
+          <div className="text-white text-xl tracking-wide drop-shadow-[0_0_5px_rgba(255,255,255,0.3)]">
+              <span className="text-purple-400 mr-2">›</span>
+              {log.message}
+              {log.observation && (log.observation.eventType || log.observation.entities.length > 0) && (
+                  <div className="mt-1 flex flex-wrap gap-2 text-sm text-purple-300/70 tracking-normal">
+                      {log.observation.eventType && (
+                          <span className="border border-purple-800 px-1 rounded bg-purple-950/30 uppercase">{log.observation.eventType}</span>
+                      )}
+                      {log.observation.entities.map((entity, i) => (
+                          <span key={`${entity.label}-${i}`}>#{entity.label}</span>
+                      ))}
+                      <span className="opacity-60">{Math.round(log.observation.confidence * 100)}%</span>
+                  </div>
+              )}
+          </div>
+      )}
+
+      {log.type === 'bridge' && (
+          <div className="text-cyan-300 text-base italic opacity-80 flex items-center gap-2">
+              <span className="text-xs border border-cyan-800 px-1 rounded bg-cyan-950/30">SYNC</span>
+              {log.message}
+          </div>
+      )}
+
+      {log.type === 'error' && (
+          <div className="text-pink-500 font-bold tracking-wider drop-shadow-[0_0_8px_rgba(236,72,153,0.5)]">
+              [ERR] {log.message}
+          </div>
+      )}
+
+      {log.type === 'alert' && (
+          <div className="text-yellow-300 font-bold tracking-wide bg-yellow-500/10 border-l-4 border-yellow-400 pl-2 py-1 drop-shadow-[0_0_6px_rgba(250,204,21,0.4)]">
+              [ALERT] {log.message}
+          </div>
+      )}
+
+      {log.type === 'success' && (
+          <div className="text-green-400 font-bold flex items-center gap-2 tracking-wide drop-shadow-[0_0_5px_rgba(74,222,128,0.4)]">
+              <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
+              {log.message}
+          </div>
+      )}
+      
+      {log.type === 'info' && (
+          <div className="text-gray-400 text-base">
+              {log.message}
+          </div>
+      )}
+    </>
+);
+
+const TranscriptLine: React.FC<{ message: TranscriptMessage }> = ({ message }) => message.role === 'user' ? (
+    <div className="text-amber-200 text-lg">
+        <span className="text-xs font-bold border border-amber-700 px-1 rounded bg-amber-950/30 mr-2">USER</span>
+        {message.text}
+    </div>
+) : (
+    <div className="text-blue-300 text-lg">
+        <span className="text-xs font-bold border border-blue-700 px-1 rounded bg-blue-950/30 mr-2">AGENT</span>
+        {message.text}
+        {/* The visual context the agent had been given when it replied. */}
+        <div className="mt-1 text-sm text-cyan-300/60 space-y-0.5">
+            {message.context.length === 0 ? (
+                <p className="italic">↳ no new visual context since last reply</p>
+            ) : message.context.map((payload, i) => (
+                <p key={i}>↳ ctx: {payload}</p>
+            ))}
+        </div>
+    </div>
+);
+
+const CATEGORY_STYLES: Record<TimelineCategory, string> = {
+  visual: 'text-purple-300 border-purple-800',
+  bridge: 'text-cyan-300 border-cyan-800',
+  transcript: 'text-blue-300 border-blue-800',
+  alert: 'text-yellow-300 border-yellow-700',
+  error: 'text-pink-400 border-pink-800',
+  success: 'text-green-400 border-green-800',
+  info: 'text-gray-400 border-gray-700',
+};
+
+const EXPORT_FORMATS: TimelineExportFormat[] = ['json', 'csv', 'md'];
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
-      hour12: false,
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-    });
-  };
+const itemKey = (item: TimelineItem) => item.kind === 'log' ? item.entry.id : item.message.id;
+
+const formatTime = (date: Date) => {
+  return date.toLocaleTimeString('en-US', {
+    hour12: false,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+};
+
+const download = ({ blob, filename }: { blob: Blob; filename: string }) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const Terminal: React.FC<TerminalProps> = ({ logs, transcript, onOpenEntry }) => {
+  const [filter, setFilter] = useState(EMPTY_TIMELINE_FILTER);
+  // Follows new entries until the user scrolls up; scrolling back down resumes.
+  const [follow, setFollow] = useState(true);
+  const timeline = useMemo(() => mergeTimeline(logs, transcript), [logs, transcript]);
+  const visible = useMemo(() => filterTimeline(timeline, filter), [timeline, filter]);
+  const isFiltered = visible.length !== timeline.length;
+  const latestKey = visible.length > 0 ? itemKey(visible[visible.length - 1]) : null;
+
+  const toggleCategory = (category: TimelineCategory) =>
+    setFilter(prev => ({
+      ...prev,
+      hidden: prev.hidden.includes(category) ? prev.hidden.filter(c => c !== category) : [...prev.hidden, category],
+    }));
+
+  const renderItem = useCallback((item: TimelineItem) => (
+    <div
+      className={`flex gap-3 items-start pb-3 ${
+        // Only the newest line animates in; recycled rows must not replay it.
+        itemKey(item) === latestKey ? 'animate-in fade-in slide-in-from-left-2 duration-300' : ''
+      }`}
+    >
+      {/* Timestamp */}
+      <span className="flex-none text-gray-600 font-bold select-none pt-0.5 text-base opacity-70">
+          [{formatTime(item.timestamp)}]
+      </span>
+
+      {/* Message Body */}
+      <div className="flex-1 leading-tight break-words min-w-0">
+          {item.kind === 'log' ? <LogLine log={item.entry} onOpen={onOpenEntry} /> : <TranscriptLine message={item.message} />}
+      </div>
+    </div>
+  ), [latestKey, onOpenEntry]);
 
   return (
-    <div className="h-full w-full relative bg-[#121212] rounded-xl overflow-hidden font-mono text-lg crt-overlay shadow-[inset_0_0_20px_rgba(0,0,0,0.8)] border border-gray-800/50">
+    <div className="h-full w-full relative bg-[#121212] rounded-xl overflow-hidden font-mono text-lg crt-overlay shadow-[inset_0_0_20px_rgba(0,0,0,0.8)] border border-gray-800/50 flex flex-col">
       
       {/* Screen Effects */}
       <div className="scanline-anim opacity-10 pointer-events-none absolute inset-0 z-10"></div>
       <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_transparent_50%,_rgba(0,0,0,0.4)_100%)] pointer-events-none z-10"></div>
-      
-      {/* Content Container with Fade Mask */}
-      <div className="h-full overflow-y-auto p-4 pb-4 space-y-3 relative z-20" style={{ maskImage: 'linear-gradient(to bottom, transparent, black 10%)' }}>
-        
-        {logs.length === 0 && (
-          <div className="flex flex-col items-center justify-center h-full text-gray-600 space-y-2 opacity-50">
-             <div className="w-12 h-1 bg-gray-600/50 rounded-full animate-pulse"></div>
-             <p className="text-sm uppercase tracking-widest font-bold">Awaiting Data Stream</p>
-          </div>
-        )}
-        
-        <div className="space-y-3 pt-4">
-          {logs.map((log) => (
-            <div key={log.id} className="flex gap-3 animate-in fade-in slide-in-from-left-2 duration-300 items-start">
-              
-              {/* Timestamp */}
-              <span className="flex-none text-gray-600 font-bold select-none pt-0.5 text-base opacity-70">
-                  [{formatTime(log.timestamp)}]
-              </span>
-              
-              {/* Message Body */}
-              <div className="flex-1 leading-tight break-words">
-                  {log.type === 'visual' && (
-                      <div className="text-white text-xl tracking-wide drop-shadow-[0_0_5px_rgba(255,255,255,0.3)]">
-                          <span className="text-purple-400 mr-2">›</span>
-                          {log.message}
-                      </div>
-                  )}
-
-                  {log.type === 'bridge' && (
-                      <div className="text-cyan-300 text-base italic opacity-80 flex items-center gap-2">
-                          <span className="text-xs border border-cyan-800 px-1 rounded bg-cyan-950/30">SYNC</span>
-                          {log.message}
-                      </div>
-                  )}
-
-                  {log.type === 'error' && (
-                      <div className="text-pink-500 font-bold tracking-wider drop-shadow-[0_0_8px_rgba(236,72,153,0.5)]">
-                          [ERR] {log.message}
-                      </div>
-                  )}
-
-                  {log.type === 'success' && (
-                      <div className="text-green-400 font-bold flex items-center gap-2 tracking-wide drop-shadow-[0_0_5px_rgba(74,222,128,0.4)]">
-                          <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
-                          {log.message}
-                      </div>
-                  )}
-                  
-                  {log.type === 'info' && (
-                      <div className="text-gray-400 text-base">
-                          {log.message}
-                      </div>
-                  )}
-              </div>
-            </div>
+
+      {/* Filters, search and export */}
+      <div className="flex-none relative z-20 flex flex-wrap items-center gap-2 px-4 pt-3 pb-2 border-b border-gray-800/60 text-[10px] font-bold uppercase tracking-widest">
+        {TIMELINE_CATEGORIES.map(category => (
+          <button
+            key={category}
+            onClick={() => toggleCategory(category)}
+            className={`px-1.5 py-0.5 rounded border transition-opacity ${CATEGORY_STYLES[category]} ${
+              filter.hidden.includes(category) ? 'opacity-30 line-through' : 'opacity-90 hover:opacity-100'
+            }`}
+          >
+            {category}
+          </button>
+        ))}
+        <label className="flex-1 min-w-[120px] flex items-center gap-1 px-2 py-0.5 rounded border border-gray-700 text-gray-400 normal-case tracking-normal">
+          <Search className="w-3 h-3 flex-none" />
+          <input
+            value={filter.query}
+            onChange={(e) => setFilter(prev => ({ ...prev, query: e.target.value }))}
+            placeholder="search, e.g. cat exit"
+            className="bg-transparent outline-none w-full text-xs text-gray-200 placeholder-gray-600"
+          />
+        </label>
+        {isFiltered && <span className="text-gray-500">{visible.length}/{timeline.length}</span>}
+        <span className="flex items-center gap-1 text-gray-500">
+          <Download className="w-3 h-3" />
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => download(exportTimeline(visible, format))}
+              disabled={visible.length === 0}
+              className="px-1 rounded hover:text-gray-200 disabled:opacity-40"
+              title={isFiltered ? `Export the ${visible.length} shown entries as ${format.toUpperCase()}` : `Export as ${format.toUpperCase()}`}
+            >
+              {format}
+            </button>
           ))}
-        </div>
-        <div ref={bottomRef} className="h-4" />
+        </span>
       </div>
+      
+      {timeline.length === 0 && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-600 space-y-2 opacity-50">
+           <div className="w-12 h-1 bg-gray-600/50 rounded-full animate-pulse"></div>
+           <p className="text-sm uppercase tracking-widest font-bold">Awaiting Data Stream</p>
+        </div>
+      )}
+
+      {/* Windowed content with fade mask */}
+      <VirtualList
+        items={visible}
+        getKey={itemKey}
+        renderItem={renderItem}
+        estimatedRowHeight={40}
+        follow={follow}
+        onAtBottomChange={setFollow}
+        className="flex-1 min-h-0 overflow-y-auto px-4 pt-4 relative z-20"
+        style={{ maskImage: 'linear-gradient(to bottom, transparent, black 10%)' }}
+      />
+
+      {!follow && (
+        <button
+          onClick={() => setFollow(true)}
+          className="absolute bottom-3 right-4 z-30 flex items-center gap-1 px-2 py-1 rounded-md bg-gray-800/90 border border-gray-700 text-[10px] font-bold uppercase tracking-widest text-gray-300 hover:text-white"
+        >
+          <ArrowDown className="w-3 h-3" /> Latest
+        </button>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, Megaphone, Plus, Trash2, Volume2 } from 'lucide-react';
+import { TriggerAction, TriggerMatchKind, TriggerRule } from '../types';
+import { createTriggerRule } from '../services/triggers';
+
+interface TriggerPanelProps {
+  rules: TriggerRule[];
+  onChange: (rules: TriggerRule[]) => void;
+  /** When each rule last fired in this session, by rule id. */
+  lastFired: Record<string, Date>;
+  isVoiceConnected: boolean;
+}
+
+const fieldLabel = "text-[10px] font-bold text-gray-400 ml-2 uppercase tracking-widest";
+const fieldBox = "neu-pressed rounded-xl px-4 py-2";
+const fieldInput = "bg-transparent w-full outline-none text-gray-700 text-sm placeholder-gray-400";
+
+const MATCH_KINDS: { id: TriggerMatchKind; label: string; placeholder: string }[] = [
+  { id: 'keyword', label: 'Keyword in summary', placeholder: 'e.g. door, package, phone' },
+  { id: 'entity', label: 'Entity label', placeholder: 'e.g. cat, person' },
+  { id: 'event', label: 'Event type', placeholder: 'enter, exit, pickup, put-down, lighting, other' },
+];
+
+const ACTIONS: { id: TriggerAction; label: string; icon: React.FC<{ className?: string }> }[] = [
+  { id: 'speak', label: 'Speak', icon: Megaphone },
+  { id: 'chime', label: 'Chime', icon: Volume2 },
+  { id: 'alert', label: 'Alert', icon: Bell },
+];
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+interface RuleCardProps {
+  rule: TriggerRule;
+  lastFired?: Date;
+  onUpdate: (patch: Partial<TriggerRule>) => void;
+  onDelete: () => void;
+}
+
+const RuleCard: React.FC<RuleCardProps> = ({ rule, lastFired, onUpdate, onDelete }) => {
+  // Edited as free text; split into values on blur so typing a comma is not eaten.
+  const [valuesText, setValuesText] = useState(rule.values.join(', '));
+
+  useEffect(() => {
+    setValuesText(rule.values.join(', '));
+  }, [rule.values]);
+
+  const matchKind = MATCH_KINDS.find(kind => kind.id === rule.matchKind) ?? MATCH_KINDS[0];
+  const toggleAction = (action: TriggerAction) =>
+    onUpdate({ actions: rule.actions.includes(action) ? rule.actions.filter(a => a !== action) : [...rule.actions, action] });
+
+  return (
+    <div className={`neu-flat rounded-2xl p-4 space-y-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onUpdate({ enabled: !rule.enabled })}
+          className="flex-none w-10 h-6 rounded-full neu-pressed relative"
+          title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+        >
+          <span className={`absolute top-1 w-4 h-4 rounded-full transition-all ${rule.enabled ? 'left-5 bg-green-500' : 'left-1 bg-gray-400'}`}></span>
+        </button>
+        <input
+          value={rule.name}
+          onChange={(e) => onUpdate({ name: e.target.value })}
+          className="flex-1 bg-transparent outline-none text-sm font-bold text-gray-700"
+        />
+        <button onClick={onDelete} className="text-gray-400 hover:text-red-500" title="Delete rule">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <span className={fieldLabel}>Match</span>
+          <div className={fieldBox}>
+            <select
+              value={rule.matchKind}
+              onChange={(e) => onUpdate({ matchKind: e.target.value as TriggerMatchKind })}
+              className={`${fieldInput} cursor-pointer`}
+            >
+              {MATCH_KINDS.map(kind => <option key={kind.id} value={kind.id}>{kind.label}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <span className={fieldLabel}>Cooldown</span>
+          <div className={`${fieldBox} flex items-center gap-2`}>
+            <input
+              type="number"
+              min={0}
+              step={5}
+              value={Math.round(rule.cooldownMs / 1000)}
+              onChange={(e) => onUpdate({ cooldownMs: Math.max(0, Number(e.target.value) || 0) * 1000 })}
+              className={fieldInput}
+            />
+            <span className="flex-none text-xs text-gray-400">s</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className={fieldLabel}>Any Of</span>
+        <div className={fieldBox}>
+          <input
+            value={valuesText}
+            onChange={(e) => setValuesText(e.target.value)}
+            onBlur={() => onUpdate({ values: valuesText.split(',').map(v => v.trim()).filter(Boolean) })}
+            placeholder={matchKind.placeholder}
+            className={fieldInput}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {ACTIONS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => toggleAction(id)}
+            className={`flex-1 h-8 rounded-xl text-[10px] font-bold uppercase tracking-widest flex items-center justify-center gap-1 transition-colors ${
+              rule.actions.includes(id) ? 'neu-pressed text-gray-800' : 'neu-convex neu-btn text-gray-400 hover:text-gray-700'
+            }`}
+          >
+            <Icon className="w-3 h-3" /> {label}
+          </button>
+        ))}
+      </div>
+
+      {rule.actions.includes('speak') && (
+        <div className="space-y-1">
+          <span className={fieldLabel}>Prompt ({'{summary}'} = observation)</span>
+          <div className={fieldBox}>
+            <textarea
+              value={rule.prompt}
+              onChange={(e) => onUpdate({ prompt: e.target.value })}
+              className={`${fieldInput} font-mono text-xs h-16 resize-y`}
+            />
+          </div>
+        </div>
+      )}
+
+      {lastFired && <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400 px-1">Last fired {formatTime(lastFired)}</p>}
+    </div>
+  );
+};
+
+export const TriggerPanel: React.FC<TriggerPanelProps> = ({ rules, onChange, lastFired, isVoiceConnected }) => {
+  const updateRule = (id: string, patch: Partial<TriggerRule>) =>
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...patch } : rule));
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-gray-500 px-1">
+        Rules run on every reported change. <b>Speak</b> sends a prompt as if you had said it, so the agent talks first
+        {isVoiceConnected ? '' : ' (needs an active voice session)'}. <b>Chime</b> plays a local sound. <b>Alert</b> adds a highlighted line to the Logic Stream.
+      </p>
+
+      {rules.map(rule => (
+        <RuleCard
+          key={rule.id}
+          rule={rule}
+          lastFired={lastFired[rule.id]}
+          onUpdate={(patch) => updateRule(rule.id, patch)}
+          onDelete={() => onChange(rules.filter(r => r.id !== rule.id))}
+        />
+      ))}
+
+      <button
+        onClick={() => onChange([...rules, createTriggerRule()])}
+        className="w-full h-10 neu-convex neu-btn rounded-xl font-bold text-gray-600 uppercase text-xs tracking-widest flex items-center justify-center gap-2 hover:text-gray-900"
+      >
+        <Plus className="w-4 h-4" /> Add Rule
+      </button>
+    </div>
+  );
+};
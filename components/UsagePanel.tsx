@@ -0,0 +1,126 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { budgetExceeded, estimateCostUsd, noChangeRatio, UsageSettings, UsageTotals } from '../services/usageMeter';
+import { formatTokens } from '../services/captureSettings';
+
+interface UsagePanelProps {
+  totals: UsageTotals;
+  settings: UsageSettings;
+  onChange: (patch: Partial<UsageSettings>) => void;
+  onReset: () => void;
+}
+
+const sectionTitle = "text-xs font-bold text-gray-400 ml-2 uppercase tracking-wide";
+
+const formatTime = (epochMs: number) =>
+  new Date(epochMs).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit' });
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="neu-pressed rounded-xl px-4 py-3">
+    <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400">{label}</p>
+    <p className="text-lg font-mono text-gray-700">{value}</p>
+    {hint && <p className="text-[10px] text-gray-400">{hint}</p>}
+  </div>
+);
+
+interface LimitFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step: number;
+  unit?: string;
+}
+
+const LimitField: React.FC<LimitFieldProps> = ({ label, value, onChange, step, unit }) => (
+  <label className="space-y-1 block">
+    <span className="text-[10px] font-bold text-gray-400 ml-2 uppercase tracking-widest">{label}</span>
+    <div className="neu-pressed rounded-xl px-4 py-2 flex items-center gap-3">
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          if (Number.isFinite(next)) onChange(Math.max(0, next));
+        }}
+        className="bg-transparent w-full outline-none text-gray-700 text-sm"
+      />
+      {unit && <span className="flex-none text-xs text-gray-400">{unit}</span>}
+    </div>
+  </label>
+);
+
+/**
+ * Per-session totals of vision calls and voice bridge updates, the cost
+ * estimate they add up to, and the caps that pause the loop.
+ */
+export const UsagePanel: React.FC<UsagePanelProps> = ({ totals, settings, onChange, onReset }) => {
+  const cost = estimateCostUsd(totals, settings);
+  const exceeded = budgetExceeded(totals, settings);
+  const averageLatency = totals.calls > 0 ? Math.round(totals.totalLatencyMs / totals.calls) : 0;
+  const errorEntries = Object.entries(totals.errorsByStatus);
+
+  return (
+    <div className="space-y-8">
+      {exceeded && (
+        <p className="neu-pressed rounded-xl px-4 py-3 text-xs font-bold text-red-500">
+          Budget cap reached ({exceeded}). The vision loop stays paused until the cap is raised or the session is reset.
+        </p>
+      )}
+
+      <section className="space-y-3">
+        <p className={sectionTitle}>Session since {formatTime(totals.startedAt)}</p>
+        <div className="grid grid-cols-2 gap-3">
+          <Stat label="Vision Calls" value={`${totals.calls}`} hint={`avg ${averageLatency}ms`} />
+          <Stat label="Est. Cost" value={`$${cost.toFixed(cost < 1 ? 4 : 2)}`} />
+          <Stat
+            label="Tokens In / Out"
+            value={`${formatTokens(totals.inputTokens)} / ${formatTokens(totals.outputTokens)}`}
+            hint={totals.callsWithoutUsage > 0 ? `${totals.callsWithoutUsage} calls without usage data` : undefined}
+          />
+          <Stat label="No Change" value={`${Math.round(noChangeRatio(totals) * 100)}%`} hint={`${totals.changes} changes`} />
+          <Stat label="Context Updates" value={`${totals.bridgeSent}`} hint={totals.bridgeFailed > 0 ? `${totals.bridgeFailed} failed` : undefined} />
+          <Stat label="Errors" value={`${totals.errors}`} />
+        </div>
+        {errorEntries.length > 0 && (
+          <div className="neu-pressed rounded-xl px-4 py-3 space-y-1 text-xs font-mono text-gray-600">
+            {errorEntries.map(([key, count]) => (
+              <div key={key} className="flex justify-between">
+                <span>{key}</span>
+                <span>{count}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={onReset}
+          className="w-full h-10 neu-convex neu-btn rounded-xl font-bold text-gray-600 uppercase text-xs tracking-widest flex items-center justify-center gap-2 hover:text-gray-900"
+        >
+          <RotateCcw className="w-4 h-4" /> Start New Session
+        </button>
+      </section>
+
+      <section className="space-y-3">
+        <p className={sectionTitle}>Prices (USD)</p>
+        <div className="grid grid-cols-2 gap-3">
+          <LimitField label="Input" value={settings.inputPricePerMillion} onChange={(inputPricePerMillion) => onChange({ inputPricePerMillion })} step={0.05} unit="/ 1M" />
+          <LimitField label="Output" value={settings.outputPricePerMillion} onChange={(outputPricePerMillion) => onChange({ outputPricePerMillion })} step={0.05} unit="/ 1M" />
+          <LimitField label="Context Update" value={settings.pricePerContextUpdate} onChange={(pricePerContextUpdate) => onChange({ pricePerContextUpdate })} step={0.001} unit="each" />
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <p className={sectionTitle}>Budget Caps</p>
+        <div className="grid grid-cols-2 gap-3">
+          <LimitField label="Max Calls" value={settings.maxCalls} onChange={(maxCalls) => onChange({ maxCalls: Math.round(maxCalls) })} step={10} />
+          <LimitField label="Max Tokens" value={settings.maxTokens} onChange={(maxTokens) => onChange({ maxTokens: Math.round(maxTokens) })} step={10000} />
+          <LimitField label="Max Cost" value={settings.maxCostUsd} onChange={(maxCostUsd) => onChange({ maxCostUsd })} step={0.1} unit="$" />
+        </div>
+        <p className="text-xs text-gray-500 px-1">
+          0 means no cap. When a cap is hit, the vision loop pauses and agent tools stop looking. The voice session is left alone.
+        </p>
+      </section>
+    </div>
+  );
+};
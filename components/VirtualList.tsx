@@ -0,0 +1,133 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** Used for rows that have not been measured yet. */
+  estimatedRowHeight: number;
+  /** Vertical space between rows, in px. */
+  gap?: number;
+  /** Extra px rendered above and below the viewport. */
+  overscan?: number;
+  /** Keep the view pinned to the newest row while true. */
+  follow: boolean;
+  /** Reports whether the user is at the bottom, i.e. whether following should continue. */
+  onAtBottomChange: (atBottom: boolean) => void;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const AT_BOTTOM_SLACK = 24;
+
+/**
+ * Windowed list for rows of varying height: only the rows near the
+ * viewport are mounted. Heights are measured once rendered and cached by
+ * key, so scrolling stays stable as rows come and go.
+ */
+export const VirtualList = <T,>({
+  items, getKey, renderItem, estimatedRowHeight, gap = 0, overscan = 400, follow, onAtBottomChange, className, style,
+}: VirtualListProps<T>) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+
+  const observerRef = useRef<ResizeObserver | null>(null);
+  if (!observerRef.current && typeof ResizeObserver !== 'undefined') {
+    observerRef.current = new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        // Rows scrolled out of the window report a zero size on their way out.
+        if (!entry.target.isConnected) {
+          observerRef.current?.unobserve(entry.target);
+          return;
+        }
+        const key = (entry.target as HTMLElement).dataset.key;
+        const height = Math.ceil(entry.borderBoxSize?.[0]?.blockSize ?? (entry.target as HTMLElement).offsetHeight);
+        if (key && heightsRef.current.get(key) !== height) {
+          heightsRef.current.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) setMeasureVersion(v => v + 1);
+    });
+  }
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const measureRow = useCallback((element: HTMLDivElement | null) => {
+    if (element) observerRef.current?.observe(element);
+  }, []);
+
+  // Drop cached heights of rows that are gone (retention, filters).
+  useEffect(() => {
+    const keys = new Set(items.map(getKey));
+    heightsRef.current.forEach((_, key) => {
+      if (!keys.has(key)) heightsRef.current.delete(key);
+    });
+  }, [items, getKey]);
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const update = () => setViewport({ scrollTop: scroller.scrollTop, height: scroller.clientHeight });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(scroller);
+    return () => observer.disconnect();
+  }, []);
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    items.forEach((item, i) => {
+      result[i + 1] = result[i] + (heightsRef.current.get(getKey(item)) ?? estimatedRowHeight) + gap;
+    });
+    return result;
+    // measureVersion invalidates the cached heights read above.
+  }, [items, getKey, estimatedRowHeight, gap, measureVersion]);
+
+  const totalHeight = offsets[items.length];
+
+  // Binary search for the first row whose bottom is below `y`.
+  const indexAt = (y: number) => {
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= y) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+  const start = indexAt(Math.max(0, viewport.scrollTop - overscan));
+  const end = Math.min(items.length, indexAt(viewport.scrollTop + viewport.height + overscan) + 1);
+
+  useLayoutEffect(() => {
+    const scroller = scrollRef.current;
+    if (follow && scroller) scroller.scrollTop = scroller.scrollHeight;
+  }, [follow, totalHeight, items.length]);
+
+  const handleScroll = () => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    setViewport({ scrollTop: scroller.scrollTop, height: scroller.clientHeight });
+    onAtBottomChange(scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight <= AT_BOTTOM_SLACK);
+  };
+
+  return (
+    <div ref={scrollRef} onScroll={handleScroll} className={className} style={style}>
+      <div className="relative" style={{ height: totalHeight }}>
+        {items.slice(start, end).map((item, i) => {
+          const index = start + i;
+          const key = getKey(item);
+          return (
+            <div key={key} ref={measureRow} data-key={key} className="absolute left-0 right-0" style={{ top: offsets[index] }}>
+              {renderItem(item, index)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,340 @@
+// Optional backend proxy for the Visual Reasoning Connector.
+//
+// Holds the Gemini and ElevenLabs keys server-side so they never reach the
+// browser. Zero dependencies: plain node:http + global fetch (Node 18+).
+//
+//   GEMINI_API_KEY=... ELEVENLABS_API_KEY=... AGENT_ID=... npm run proxy
+//
+// Endpoints:
+//   POST /analyze      { systemInstruction, segments, temperature, maxOutputTokens, model? } -> { text, usage? }
+//   GET  /signed-url   ?agent_id=<id> (optional when AGENT_ID is set) -> { signedUrl }
+//   POST /session      { token } -> { expiresAt }, sets the session cookie
+//   GET  /session      -> { required, active, expiresAt }
+//   GET  /health
+//
+// Browsers on other sites are turned away by the PROXY_ALLOWED_ORIGIN check
+// (default: the Vite dev server). Anyone else can fake an Origin header, so
+// set PROXY_TOKEN before exposing the proxy: the user then signs in with it
+// once and gets an HttpOnly session cookie.
+
+import crypto from 'node:crypto';
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8787);
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
+const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-3-flash-preview';
+const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || '';
+const AGENT_ID = process.env.AGENT_ID || '';
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGIN || 'http://localhost:5173')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+// Access code typed in by the user (never built into the frontend); when set, every
+// request needs a session opened with it.
+const PROXY_TOKEN = process.env.PROXY_TOKEN || '';
+const SESSION_COOKIE = 'vc_proxy_session';
+const SESSION_TTL_MS = Number(process.env.PROXY_SESSION_HOURS || 12) * 3600000;
+// Mark the cookie Secure once the proxy is served over HTTPS.
+const SECURE_COOKIE = process.env.PROXY_SECURE_COOKIE === '1';
+// Models a client may ask for; anything else is refused so the key cannot be spent on arbitrary models.
+const ALLOWED_MODELS = new Set([
+  GEMINI_MODEL,
+  ...(process.env.PROXY_ALLOWED_MODELS || '').split(',').map((model) => model.trim()).filter(Boolean),
+]);
+// Only honour X-Forwarded-For when running behind a trusted reverse proxy.
+const TRUST_FORWARDED = process.env.PROXY_TRUST_FORWARDED === '1';
+// Requests per client per minute, across all endpoints. The main loop alone
+// can reach 30/min at its 2s minimum interval; agent tool looks and every
+// extra camera come on top, so the default leaves room for a few of each.
+const RATE_LIMIT_PER_MINUTE = Number(process.env.PROXY_RATE_LIMIT || 120);
+// Two 512px JPEG frames are ~100 KB; leave generous headroom.
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// --- Rate limiting -------------------------------------------------------
+
+/** Token bucket per client: refills RATE_LIMIT_PER_MINUTE tokens per minute. */
+const buckets = new Map();
+
+const takeToken = (clientId) => {
+  const now = Date.now();
+  const refillPerMs = RATE_LIMIT_PER_MINUTE / 60000;
+  const bucket = buckets.get(clientId) || { tokens: RATE_LIMIT_PER_MINUTE, updatedAt: now };
+  bucket.tokens = Math.min(RATE_LIMIT_PER_MINUTE, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+  bucket.updatedAt = now;
+  buckets.set(clientId, bucket);
+  if (bucket.tokens < 1) {
+    return { ok: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+  }
+  bucket.tokens -= 1;
+  return { ok: true, retryAfterSeconds: 0 };
+};
+
+// Forget idle clients and expired sessions so the maps do not grow forever.
+setInterval(() => {
+  const now = Date.now();
+  for (const [clientId, bucket] of buckets) {
+    if (bucket.updatedAt < now - 10 * 60000) buckets.delete(clientId);
+  }
+  for (const [sessionId, expiresAt] of sessions) {
+    if (expiresAt <= now) sessions.delete(sessionId);
+  }
+}, 60000).unref();
+
+const clientIdOf = (req) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_FORWARDED && typeof forwarded === 'string' && forwarded) return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// --- Access control ------------------------------------------------------
+
+/** Session id -> expiry (epoch ms). In memory, so a restart signs everyone out. */
+const sessions = new Map();
+
+const sessionIdOf = (req) => {
+  const cookies = (req.headers.cookie || '').split(';').map((cookie) => cookie.trim());
+  const match = cookies.find((cookie) => cookie.startsWith(`${SESSION_COOKIE}=`));
+  return match ? match.slice(SESSION_COOKIE.length + 1) : '';
+};
+
+const sessionExpiry = (req) => {
+  const expiresAt = sessions.get(sessionIdOf(req));
+  return expiresAt && expiresAt > Date.now() ? expiresAt : null;
+};
+
+// Compares digests so the check takes the same time however much of the token matches.
+const tokenMatches = (candidate) =>
+  typeof candidate === 'string' &&
+  crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(candidate).digest(),
+    crypto.createHash('sha256').update(PROXY_TOKEN).digest()
+  );
+
+/**
+ * Refuses browsers on other sites. This is not authentication: a script
+ * can send any Origin header it likes. With PROXY_TOKEN set, a session
+ * opened through POST /session is required as well.
+ */
+const checkAccess = (req, { needsSession = true } = {}) => {
+  const origin = req.headers.origin;
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) throw new HttpError(403, 'Origin not allowed');
+  if (PROXY_TOKEN && needsSession && !sessionExpiry(req)) {
+    throw new HttpError(401, 'No proxy session; sign in with the access code in Settings');
+  }
+};
+
+// --- Helpers -------------------------------------------------------------
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    let tooLarge = false;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      if (tooLarge) return;
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Keep the socket open so the 413 reaches the client; the response closes it.
+        tooLarge = true;
+        chunks.length = 0;
+        reject(new HttpError(413, 'Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (tooLarge) return;
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// --- Handlers ------------------------------------------------------------
+
+/**
+ * Forwards a provider-neutral prompt (see services/visionPrompt.ts) to the
+ * Gemini REST API and returns the raw model text and token usage.
+ */
+const handleAnalyze = async (req) => {
+  if (!GEMINI_API_KEY) throw new HttpError(503, 'GEMINI_API_KEY is not configured on the proxy');
+
+  const body = await readJson(req);
+  if (!Array.isArray(body.segments) || typeof body.systemInstruction !== 'string') {
+    throw new HttpError(400, 'Expected { systemInstruction, segments }');
+  }
+
+  const parts = body.segments.map((segment) =>
+    segment.type === 'image'
+      ? { inlineData: { data: segment.data, mimeType: segment.mimeType } }
+      : { text: String(segment.text ?? '') }
+  );
+
+  const model = typeof body.model === 'string' && body.model ? body.model : GEMINI_MODEL;
+  if (!ALLOWED_MODELS.has(model)) throw new HttpError(400, `Model ${model} is not allowed on this proxy`);
+  const upstream = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': GEMINI_API_KEY },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: body.systemInstruction }] },
+        contents: [{ role: 'user', parts }],
+        generationConfig: {
+          temperature: body.temperature,
+          maxOutputTokens: body.maxOutputTokens,
+          responseMimeType: 'application/json',
+          thinkingConfig: { thinkingBudget: 0 },
+        },
+      }),
+    }
+  );
+
+  const data = await upstream.json().catch(() => ({}));
+  if (!upstream.ok) {
+    throw new HttpError(upstream.status, data?.error?.message || `Gemini responded ${upstream.status}`);
+  }
+
+  const text = (data?.candidates?.[0]?.content?.parts || [])
+    .map((part) => part.text || '')
+    .join('');
+  const usage = data?.usageMetadata;
+  return {
+    text: text.trim(),
+    usage: usage && { inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 },
+  };
+};
+
+/**
+ * Mints a short-lived signed WebSocket URL for an ElevenLabs agent so the
+ * browser can start a conversation without ever seeing the API key.
+ */
+const handleSignedUrl = async (url) => {
+  if (!ELEVENLABS_API_KEY) throw new HttpError(503, 'ELEVENLABS_API_KEY is not configured on the proxy');
+
+  const agentId = url.searchParams.get('agent_id') || AGENT_ID;
+  if (!agentId) throw new HttpError(400, 'agent_id is required');
+
+  const upstream = await fetch(
+    `https://api.elevenlabs.io/v1/convai/conversation/get-signed-url?agent_id=${encodeURIComponent(agentId)}`,
+    { headers: { 'xi-api-key': ELEVENLABS_API_KEY } }
+  );
+  const data = await upstream.json().catch(() => ({}));
+  if (!upstream.ok) {
+    throw new HttpError(upstream.status, data?.detail?.message || `ElevenLabs responded ${upstream.status}`);
+  }
+  return { signedUrl: data.signed_url };
+};
+
+/**
+ * Trades the access code for a session cookie. HttpOnly keeps it away from
+ * page scripts; SameSite=Strict keeps other sites from riding on it.
+ */
+const handleOpenSession = async (req, res) => {
+  if (!PROXY_TOKEN) throw new HttpError(404, 'This proxy has no access code');
+  const body = await readJson(req);
+  if (!tokenMatches(body.token)) throw new HttpError(401, 'Wrong access code');
+
+  const sessionId = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  sessions.set(sessionId, expiresAt);
+  const cookie = [
+    `${SESSION_COOKIE}=${sessionId}`,
+    'HttpOnly',
+    'SameSite=Strict',
+    'Path=/',
+    `Max-Age=${Math.floor(SESSION_TTL_MS / 1000)}`,
+    ...(SECURE_COOKIE ? ['Secure'] : []),
+  ].join('; ');
+  sendJson(res, 200, { expiresAt }, { 'Set-Cookie': cookie });
+};
+
+// --- Server --------------------------------------------------------------
+
+const server = http.createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const clientId = clientIdOf(req);
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+  const origin = req.headers.origin;
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    // The session cookie only travels on credentialed requests.
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  res.on('finish', () => {
+    console.log(
+      `${new Date().toISOString()} ${clientId} ${req.method} ${url.pathname} ${res.statusCode} ${Date.now() - startedAt}ms`
+    );
+  });
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    sendJson(res, 200, { ok: true, gemini: Boolean(GEMINI_API_KEY), elevenlabs: Boolean(ELEVENLABS_API_KEY) });
+    return;
+  }
+
+  const limit = takeToken(clientId);
+  if (!limit.ok) {
+    sendJson(res, 429, { error: 'Rate limit exceeded' }, { 'Retry-After': String(limit.retryAfterSeconds) });
+    return;
+  }
+
+  try {
+    if (url.pathname === '/session') {
+      checkAccess(req, { needsSession: false });
+      if (req.method === 'POST') {
+        await handleOpenSession(req, res);
+      } else if (req.method === 'GET') {
+        const expiresAt = sessionExpiry(req);
+        sendJson(res, 200, { required: Boolean(PROXY_TOKEN), active: !PROXY_TOKEN || Boolean(expiresAt), expiresAt });
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+      return;
+    }
+    checkAccess(req);
+    if (req.method === 'POST' && url.pathname === '/analyze') {
+      sendJson(res, 200, await handleAnalyze(req));
+    } else if (req.method === 'GET' && url.pathname === '/signed-url') {
+      sendJson(res, 200, await handleSignedUrl(url));
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 502;
+    if (!(error instanceof HttpError)) console.error('Proxy failure:', error);
+    // An oversized body is not read to the end; close instead of keeping the connection alive.
+    sendJson(res, status, { error: error.message || 'Proxy failure' }, status === 413 ? { Connection: 'close' } : {});
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[proxy] listening on http://localhost:${PORT}`);
+  console.log(`[proxy] gemini: ${GEMINI_API_KEY ? 'configured' : 'missing'}, elevenlabs: ${ELEVENLABS_API_KEY ? 'configured' : 'missing'}, rate limit: ${RATE_LIMIT_PER_MINUTE}/min`);
+  console.log(`[proxy] access: origins ${ALLOWED_ORIGINS.join(', ')}${PROXY_TOKEN ? ' plus access-code sessions' : ' only (no PROXY_TOKEN, do not expose)'}, models: ${[...ALLOWED_MODELS].join(', ')}`);
+});
@@ -0,0 +1,180 @@
+import { FrameRegion } from "../types";
+import { SceneState } from "./sceneMemory";
+
+/**
+ * Client tools exposed to the ElevenLabs agent, so it can pull visual
+ * context on demand instead of waiting for the next capture tick.
+ * The tool names and parameters must match the agent's configuration
+ * in the ElevenLabs dashboard (see README, "Agent Tools").
+ */
+
+const NAMED_REGIONS: Record<string, FrameRegion> = {
+  'left': { x: 0, y: 0, width: 0.5, height: 1 },
+  'right': { x: 0.5, y: 0, width: 0.5, height: 1 },
+  'top': { x: 0, y: 0, width: 1, height: 0.5 },
+  'bottom': { x: 0, y: 0.5, width: 1, height: 0.5 },
+  'center': { x: 0.25, y: 0.25, width: 0.5, height: 0.5 },
+  'top-left': { x: 0, y: 0, width: 0.5, height: 0.5 },
+  'top-right': { x: 0.5, y: 0, width: 0.5, height: 0.5 },
+  'bottom-left': { x: 0, y: 0.5, width: 0.5, height: 0.5 },
+  'bottom-right': { x: 0.5, y: 0.5, width: 0.5, height: 0.5 },
+};
+
+export const REGION_NAMES = Object.keys(NAMED_REGIONS);
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+/**
+ * Accepts a named region ("top-left", "center", ...) or an explicit
+ * {x, y, width, height} box in fractions of the frame.
+ */
+export const resolveRegion = (region: unknown): FrameRegion | null => {
+  if (typeof region === 'string') {
+    const key = region.trim().toLowerCase().replace(/[\s_]+/g, '-');
+    return NAMED_REGIONS[key === 'middle' ? 'center' : key] ?? null;
+  }
+  if (region && typeof region === 'object') {
+    const { x, y, width, height } = region as Record<string, unknown>;
+    const values = [x, y, width, height].map(Number);
+    if (values.some(v => !Number.isFinite(v))) return null;
+    const [rx, ry] = values.map(clamp01);
+    const rw = Math.min(clamp01(values[2]), 1 - rx);
+    const rh = Math.min(clamp01(values[3]), 1 - ry);
+    return rw > 0 && rh > 0 ? { x: rx, y: ry, width: rw, height: rh } : null;
+  }
+  return null;
+};
+
+/**
+ * Crops a data-URL frame to `region`, keeping the source resolution of the
+ * crop (so the model sees more detail than in the full downscaled frame).
+ */
+export const cropFrame = (dataUrl: string, region: FrameRegion): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const sx = Math.round(img.naturalWidth * region.x);
+      const sy = Math.round(img.naturalHeight * region.y);
+      const sw = Math.max(1, Math.round(img.naturalWidth * region.width));
+      const sh = Math.max(1, Math.round(img.naturalHeight * region.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = sw;
+      canvas.height = sh;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas unavailable"));
+      ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+    img.onerror = () => reject(new Error("Could not decode frame"));
+    img.src = dataUrl;
+  });
+
+/**
+ * Parses the `since` argument of what_changed_since into epoch ms.
+ * Accepts relative durations ("90", "90s", "5m", "2 minutes", "1h"),
+ * epoch milliseconds, ISO timestamps and wall-clock times ("14:05").
+ */
+export const parseSince = (value: unknown, now: number = Date.now()): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // Large numbers are epoch ms; small ones are "seconds ago".
+    return value > 1e11 ? value : now - value * 1000;
+  }
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const text = value.trim().toLowerCase();
+
+  const relative = text.match(/^(\d+(?:\.\d+)?)\s*(s|sec|secs|seconds?|m|min|mins|minutes?|h|hr|hrs|hours?)?(\s+ago)?$/);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const unit = relative[2] ?? 's';
+    const factor = unit.startsWith('h') ? 3_600_000 : unit.startsWith('m') ? 60_000 : 1000;
+    return amount > 1e11 ? amount : now - amount * factor;
+  }
+
+  const clock = text.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    const date = new Date(now);
+    date.setHours(Number(clock[1]), Number(clock[2]), Number(clock[3] ?? 0), 0);
+    // A wall-clock time in the future means the same time yesterday.
+    return date.getTime() > now ? date.getTime() - 86_400_000 : date.getTime();
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Answers what_changed_since from scene memory. Entries older than the
+ * rolling log are only available in compacted form, which is said so
+ * explicitly rather than implying nothing happened.
+ */
+export const describeChangesSince = (scene: SceneState, since: number): string => {
+  const entries = scene.recent.filter(entry => entry.timestamp >= since);
+  const lines = entries.map(entry => `[${formatClock(entry.timestamp)}] ${entry.summary}`);
+  const oldest = scene.recent[0]?.timestamp;
+  const truncated = scene.compactedAt !== null && (oldest === undefined || oldest > since);
+
+  if (truncated && scene.summary) lines.unshift(`(Older changes, summarized) ${scene.summary}`);
+  if (lines.length === 0) return `No visual changes observed since ${formatClock(since)}.`;
+  return lines.join("\n");
+};
+
+export interface AgentToolHandlers {
+  /** Immediate capture plus a detailed description of the whole frame. */
+  lookNow: (question: string | null) => Promise<string>;
+  /** Immediate capture, cropped to `region`, plus a description of that crop. */
+  describeRegion: (region: FrameRegion, label: string, question: string | null) => Promise<string>;
+  /** Text summary of observations at or after `since` (epoch ms). */
+  whatChangedSince: (since: number) => string;
+  /** Called once per invocation for logging. */
+  onInvoke?: (tool: string, parameters: Record<string, unknown>) => void;
+}
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * Builds the `clientTools` map for useConversation. Tools always resolve to
+ * a string the agent can read aloud; failures are reported, never thrown.
+ */
+export const createAgentTools = (getHandlers: () => AgentToolHandlers) => {
+  const wrap = (name: string, run: (parameters: Record<string, unknown>) => Promise<string> | string) =>
+    async (parameters: Record<string, unknown> = {}): Promise<string> => {
+      const handlers = getHandlers();
+      handlers.onInvoke?.(name, parameters);
+      try {
+        return await run(parameters ?? {});
+      } catch (error) {
+        return `The vision system could not complete ${name}: ${(error as Error).message}`;
+      }
+    };
+
+  return {
+    look_now: wrap('look_now', ({ question }) => getHandlers().lookNow(optionalText(question))),
+    describe_region: wrap('describe_region', ({ region, question }) => {
+      const resolved = resolveRegion(region);
+      if (!resolved) return `Unknown region. Use one of: ${REGION_NAMES.join(", ")}, or {x, y, width, height} as fractions.`;
+      const label = typeof region === 'string' ? region.trim().toLowerCase() : "selected area";
+      return getHandlers().describeRegion(resolved, label, optionalText(question));
+    }),
+    what_changed_since: wrap('what_changed_since', ({ since }) => {
+      const timestamp = parseSince(since);
+      if (timestamp === null) return `Could not understand the time "${String(since)}". Use e.g. "5m", "90s" or "14:05".`;
+      return getHandlers().whatChangedSince(timestamp);
+    }),
+  };
+};
+
+/**
+ * Instruction appended for an on-demand look: the agent asked, so the
+ * model must answer even when nothing changed.
+ */
+export const composeOnDemandInstruction = (question: string | null, region: string | null): string =>
+  [
+    "ON-DEMAND REQUEST: The voice agent explicitly asked to look at the camera right now.",
+    region ? `The image is a crop showing only the ${region} of the frame.` : null,
+    question ? `Answer this question about the image: "${question}"` : "Describe what is visible in useful detail (people, objects held or nearby, actions, text).",
+    'Ignore change detection for this request: always set "changed" to true and put the full answer in "summary".',
+  ].filter(Boolean).join("\n");
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { classifyPriority, createBridgeQueue } from './bridgeQueue';
+import { sceneObservation } from './testFixtures';
+
+describe('classifyPriority', () => {
+  it('treats arrivals and drops as urgent', () => {
+    expect(classifyPriority(sceneObservation("A person walks in.", { eventType: 'enter' }))).toBe('urgent');
+    expect(classifyPriority(sceneObservation("The glass fell off the table."))).toBe('urgent');
+    expect(classifyPriority(sceneObservation("She knocks over the vase.", { eventType: 'other' }))).toBe('urgent');
+    expect(classifyPriority(sceneObservation("He drops the mug.", { eventType: 'put-down' }))).toBe('urgent');
+  });
+
+  it('treats departures, placements and pickups as minor', () => {
+    expect(classifyPriority(sceneObservation("The person leaves.", { eventType: 'exit' }))).toBe('normal');
+    expect(classifyPriority(sceneObservation("He sets the mug down.", { eventType: 'put-down' }))).toBe('normal');
+    expect(classifyPriority(sceneObservation("He picks up a pen.", { eventType: 'pickup' }))).toBe('normal');
+  });
+});
+
+describe('createBridgeQueue', () => {
+  it('releases urgent updates one by one before merging minor ones', () => {
+    const queue = createBridgeQueue();
+    queue.enqueue({ text: "minor 1", priority: 'normal', probe: false }, 0);
+    queue.enqueue({ text: "urgent", priority: 'urgent', probe: false }, 0);
+    queue.enqueue({ text: "minor 2", priority: 'normal', probe: true }, 0);
+
+    expect(queue.take(0)?.text).toBe("urgent");
+    const merged = queue.take(0);
+    expect(merged).toMatchObject({ count: 2, probe: true, priority: 'normal' });
+    expect(merged?.text).toBe("Catching up on 2 changes, oldest first: minor 1 Then: minor 2");
+    expect(queue.take(0)).toBeNull();
+    expect(queue.stats().coalesced).toBe(1);
+  });
+
+  it('sends urgent updates in arrival order, then one summary of every minor update', () => {
+    const queue = createBridgeQueue();
+    ["minor 1", "urgent 1", "minor 2", "urgent 2", "minor 3"].forEach(text =>
+      queue.enqueue({ text, priority: text.startsWith("urgent") ? 'urgent' : 'normal', probe: false }, 0));
+
+    const sent: string[] = [];
+    for (let update = queue.take(0); update; update = queue.take(0)) sent.push(update.text);
+    expect(sent).toEqual([
+      "urgent 1",
+      "urgent 2",
+      "Catching up on 3 changes, oldest first: minor 1 Then: minor 2 Then: minor 3",
+    ]);
+  });
+
+  it('drops updates older than maxAgeMs', () => {
+    const queue = createBridgeQueue({ maxAgeMs: 1000, maxDepth: 8 });
+    queue.enqueue({ text: "stale", priority: 'urgent', probe: false }, 0);
+    expect(queue.take(1001)).toBeNull();
+    expect(queue.stats().dropped).toBe(1);
+  });
+
+  it('drops the oldest minor update on overflow, keeping urgent ones', () => {
+    const queue = createBridgeQueue({ maxAgeMs: 60000, maxDepth: 2 });
+    queue.enqueue({ text: "urgent", priority: 'urgent', probe: false }, 0);
+    queue.enqueue({ text: "minor 1", priority: 'normal', probe: false }, 0);
+    queue.enqueue({ text: "minor 2", priority: 'normal', probe: false }, 0);
+
+    expect(queue.depth()).toBe(2);
+    expect(queue.take(0)?.text).toBe("urgent");
+    expect(queue.take(0)?.text).toBe("minor 2");
+  });
+});
@@ -0,0 +1,128 @@
+import { ObservationEventType, SceneObservation } from "../types";
+
+export type BridgePriority = 'urgent' | 'normal';
+
+export interface BridgeUpdate {
+  text: string;
+  priority: BridgePriority;
+  /** Epoch ms of the (oldest) observation behind this update. */
+  createdAt: number;
+  probe: boolean;
+  /** How many queued updates this one stands for (1 unless coalesced). */
+  count: number;
+}
+
+export interface BridgeQueueOptions {
+  /** Pending updates older than this are discarded instead of sent. */
+  maxAgeMs: number;
+  /** Upper bound on pending updates; the oldest minor one is dropped beyond it. */
+  maxDepth: number;
+}
+
+export const DEFAULT_BRIDGE_QUEUE_OPTIONS: BridgeQueueOptions = {
+  maxAgeMs: 60000,
+  maxDepth: 8,
+};
+
+export interface BridgeQueueStats {
+  depth: number;
+  sent: number;
+  failed: number;
+  /** Updates folded into another one instead of being sent on their own. */
+  coalesced: number;
+  /** Updates discarded for age or overflow. */
+  dropped: number;
+}
+
+export const EMPTY_BRIDGE_STATS: BridgeQueueStats = { depth: 0, sent: 0, failed: 0, coalesced: 0, dropped: 0 };
+
+// Someone arriving is what the agent should react to at once. Departures
+// and deliberate put-downs are routine and can wait for the catch-up summary.
+const URGENT_EVENT_TYPES: ObservationEventType[] = ['enter'];
+// Drops have no event type of their own; the model reports them as `other` or `put-down`.
+const URGENT_KEYWORDS = /\b(drop(s|ped)?|fell|falls?|falling|knock(s|ed)? over|tip(s|ped)? over|spill(s|ed)?)\b/i;
+
+/**
+ * Arrivals and things being dropped or falling jump the queue; everything
+ * else is minor and may be coalesced.
+ */
+export const classifyPriority = (observation: SceneObservation): BridgePriority =>
+  (observation.eventType && URGENT_EVENT_TYPES.includes(observation.eventType)) || URGENT_KEYWORDS.test(observation.summary)
+    ? 'urgent'
+    : 'normal';
+
+const coalesce = (items: BridgeUpdate[]): BridgeUpdate => {
+  if (items.length === 1) return items[0];
+  return {
+    text: `Catching up on ${items.length} changes, oldest first: ${items.map(item => item.text).join(" Then: ")}`,
+    priority: items.some(item => item.priority === 'urgent') ? 'urgent' : 'normal',
+    createdAt: items[0].createdAt,
+    probe: items.some(item => item.probe),
+    count: items.reduce((total, item) => total + item.count, 0),
+  };
+};
+
+/**
+ * Holds contextual updates while the agent is speaking. When the bridge
+ * opens again, urgent updates go out first, one by one, and every minor
+ * update still pending is merged into a single catch-up summary.
+ */
+export const createBridgeQueue = (options: BridgeQueueOptions = DEFAULT_BRIDGE_QUEUE_OPTIONS) => {
+  let pending: BridgeUpdate[] = [];
+  let stats: BridgeQueueStats = EMPTY_BRIDGE_STATS;
+
+  const bump = (patch: Partial<Omit<BridgeQueueStats, 'depth'>>) => {
+    stats = {
+      ...stats,
+      sent: stats.sent + (patch.sent ?? 0),
+      failed: stats.failed + (patch.failed ?? 0),
+      coalesced: stats.coalesced + (patch.coalesced ?? 0),
+      dropped: stats.dropped + (patch.dropped ?? 0),
+    };
+  };
+
+  const expire = (now: number) => {
+    const fresh = pending.filter(item => now - item.createdAt <= options.maxAgeMs);
+    bump({ dropped: pending.length - fresh.length });
+    pending = fresh;
+  };
+
+  return {
+    enqueue: (update: Omit<BridgeUpdate, 'count' | 'createdAt'>, now: number = Date.now()) => {
+      pending = [...pending, { ...update, createdAt: now, count: 1 }];
+      if (pending.length > options.maxDepth) {
+        const victim = pending.findIndex(item => item.priority === 'normal');
+        pending = pending.filter((_, i) => i !== (victim === -1 ? 0 : victim));
+        bump({ dropped: 1 });
+      }
+    },
+    /**
+     * Removes and returns what should be sent now: the oldest urgent update,
+     * otherwise all minor ones merged. Null when nothing is pending.
+     */
+    take: (now: number = Date.now()): BridgeUpdate | null => {
+      expire(now);
+      const urgent = pending.find(item => item.priority === 'urgent');
+      if (urgent) {
+        pending = pending.filter(item => item !== urgent);
+        return urgent;
+      }
+      if (pending.length === 0) return null;
+      const merged = coalesce(pending);
+      bump({ coalesced: merged.count - 1 });
+      pending = [];
+      return merged;
+    },
+    markSent: () => bump({ sent: 1 }),
+    markFailed: () => bump({ failed: 1 }),
+    /** Discards everything pending (e.g. when the voice link drops). */
+    clear: () => {
+      bump({ dropped: pending.length });
+      pending = [];
+    },
+    depth: () => pending.length,
+    stats: (): BridgeQueueStats => ({ ...stats, depth: pending.length }),
+  };
+};
+
+export type BridgeQueue = ReturnType<typeof createBridgeQueue>;
@@ -0,0 +1,137 @@
+import { LabeledImage } from "../types";
+
+/**
+ * How frames captured between two analysis ticks reach the model:
+ * not at all, as separate images, or tiled into one contact sheet.
+ */
+export type BurstMode = 'off' | 'burst' | 'contact-sheet';
+
+export interface BurstSettings {
+  mode: BurstMode;
+  /** Intermediate frames sent per call (evenly spaced over the gap). */
+  frames: number;
+  /** How often the feed is sampled into the ring buffer. */
+  sampleIntervalMs: number;
+}
+
+export const DEFAULT_BURST_SETTINGS: BurstSettings = {
+  mode: 'off',
+  frames: 4,
+  sampleIntervalMs: 500,
+};
+
+/** Intermediate frames are small: they show motion, the current frame shows detail. */
+export const BURST_FRAME_WIDTH = 256;
+// At the default sample rate this covers the longest idle backoff interval.
+const RING_CAPACITY = 40;
+
+export interface BurstFrame {
+  /** Data URL. */
+  image: string;
+  capturedAt: number;
+}
+
+/**
+ * Fixed-size ring of recent low-resolution frames. The feed pushes into
+ * it on its own timer; the vision loop drains it once per analyzed cycle.
+ */
+export const createFrameRing = (capacity: number = RING_CAPACITY) => {
+  let frames: BurstFrame[] = [];
+
+  return {
+    push: (frame: BurstFrame) => {
+      frames = [...frames, frame].slice(-capacity);
+    },
+    /**
+     * Returns up to `count` frames evenly spaced across everything buffered
+     * since the last take (oldest first) and empties the ring.
+     */
+    take: (count: number): BurstFrame[] => {
+      const buffered = frames;
+      frames = [];
+      if (count <= 0 || buffered.length === 0) return [];
+      if (buffered.length <= count) return buffered;
+      const step = buffered.length / count;
+      return Array.from({ length: count }, (_, i) => buffered[Math.floor(i * step + step / 2)]);
+    },
+    clear: () => {
+      frames = [];
+    },
+    size: () => frames.length,
+  };
+};
+
+export type FrameRing = ReturnType<typeof createFrameRing>;
+
+/** Labels each frame with how long before `now` it was captured. */
+export const labelBurstFrames = (frames: BurstFrame[], now: number = Date.now()): LabeledImage[] =>
+  frames.map(frame => ({ label: `-${((now - frame.capturedAt) / 1000).toFixed(1)}s`, image: frame.image }));
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode burst frame"));
+    img.src = dataUrl;
+  });
+
+/**
+ * Tiles labeled frames into a single image, left to right and top to
+ * bottom, with each tile's label stamped in its corner. One image is
+ * cheaper than several on every provider that bills per image.
+ */
+export const composeContactSheet = async (
+  frames: LabeledImage[],
+  mimeType: string = 'image/jpeg',
+  quality: number = 0.8
+): Promise<LabeledImage | null> => {
+  if (frames.length === 0) return null;
+  const images = await Promise.all(frames.map(frame => loadImage(frame.image)));
+  const columns = Math.ceil(Math.sqrt(images.length));
+  const rows = Math.ceil(images.length / columns);
+  const tileWidth = BURST_FRAME_WIDTH;
+  const tileHeight = Math.round(tileWidth * (images[0].naturalHeight / images[0].naturalWidth || 0.75));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * tileWidth;
+  canvas.height = rows * tileHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.font = 'bold 14px monospace';
+  ctx.textBaseline = 'top';
+  images.forEach((img, i) => {
+    const x = (i % columns) * tileWidth;
+    const y = Math.floor(i / columns) * tileHeight;
+    ctx.drawImage(img, x, y, tileWidth, tileHeight);
+    const label = `${i + 1} ${frames[i].label}`;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(x, y, ctx.measureText(label).width + 8, 20);
+    ctx.fillStyle = '#fff';
+    ctx.fillText(label, x + 4, y + 3);
+  });
+
+  return {
+    label: `${frames.length} frames in a ${columns}x${rows} grid, numbered oldest first`,
+    image: canvas.toDataURL(mimeType, quality),
+  };
+};
+
+/**
+ * Pixel sizes of the extra images one call carries in the given mode,
+ * for cost estimates.
+ */
+export const burstImageSizes = (settings: BurstSettings, frameAspect: number | null): { width: number; height: number }[] => {
+  const tileHeight = Math.round(BURST_FRAME_WIDTH / (frameAspect || 4 / 3));
+  if (settings.mode === 'burst') {
+    return Array.from({ length: settings.frames }, () => ({ width: BURST_FRAME_WIDTH, height: tileHeight }));
+  }
+  if (settings.mode === 'contact-sheet' && settings.frames > 0) {
+    const columns = Math.ceil(Math.sqrt(settings.frames));
+    const rows = Math.ceil(settings.frames / columns);
+    return [{ width: columns * BURST_FRAME_WIDTH, height: rows * tileHeight }];
+  }
+  return [];
+};
@@ -0,0 +1,70 @@
+import { RegionOfInterest } from "../types";
+import { ChangeGate, createChangeGate } from "./changeDetector";
+import { PrivacySettings, privateZones } from "./privacyFilter";
+import { createSceneMemory, SceneMemory, SceneMemoryOptions } from "./sceneMemory";
+
+/** An additional camera with its own vision loop, next to the main Optical Input. */
+export interface CameraFeed {
+  id: string;
+  name: string;
+  /** Camera device, or null for the browser default. */
+  deviceId: string | null;
+  enabled: boolean;
+  /** Base time between two captures of this camera; it still backs off while idle. */
+  intervalMs: number;
+}
+
+export interface CameraSettings {
+  /** Name of the main Optical Input, used to label its observations once other cameras exist. */
+  primaryName: string;
+  extra: CameraFeed[];
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  primaryName: "Main cam",
+  extra: [],
+};
+
+export const DEFAULT_CAMERA_INTERVAL_MS = 8000;
+
+export const createCameraFeed = (existing: CameraFeed[]): CameraFeed => ({
+  id: crypto.randomUUID(),
+  name: `Camera ${existing.length + 2}`,
+  deviceId: null,
+  enabled: true,
+  intervalMs: DEFAULT_CAMERA_INTERVAL_MS,
+});
+
+/**
+ * Private zones are drawn on the main feed and mean nothing in another
+ * camera's picture. Rather than upload extra cameras unmasked, they send
+ * nothing while any zone is set and the privacy filter is on.
+ */
+export const extraCamerasHeld = (privacy: PrivacySettings, regions: RegionOfInterest[]): boolean =>
+  privacy.enabled && privateZones(regions).length > 0;
+
+/** "Kitchen cam: Someone opened the fridge." */
+export const labelObservation = (camera: string, summary: string): string => `${camera}: ${summary}`;
+
+/**
+ * Loop state of one extra camera. Each camera is diffed against, and
+ * described relative to, only its own earlier frames.
+ */
+export interface CameraChannel {
+  gate: ChangeGate;
+  memory: SceneMemory;
+  lastSnapshot: string | null;
+  lastThumbnail: string | null;
+  lastDescription: string | null;
+  /** Set while uploads are held by `extraCamerasHeld`, so the hold is logged once. */
+  held: boolean;
+}
+
+export const createCameraChannel = (memoryOptions: SceneMemoryOptions): CameraChannel => ({
+  gate: createChangeGate(),
+  memory: createSceneMemory(memoryOptions),
+  lastSnapshot: null,
+  lastThumbnail: null,
+  lastDescription: null,
+  held: false,
+});
@@ -0,0 +1,73 @@
+/**
+ * Adaptive timing for the vision loop. Instead of a fixed interval the
+ * loop asks the scheduler for the next delay after every cycle, based on
+ * how that cycle went.
+ */
+
+export type CycleOutcome = 'change' | 'no_change' | 'skipped' | 'rate_limited' | 'error';
+
+export interface CaptureSchedulerOptions {
+  baseIntervalMs: number;
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  /** Consecutive idle cycles (NO_CHANGE or gated) before the interval starts growing. */
+  idleCyclesBeforeBackoff: number;
+  /** Multiplier applied per idle cycle once backoff kicks in. */
+  idleBackoffFactor: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: CaptureSchedulerOptions = {
+  baseIntervalMs: 4000,
+  minIntervalMs: 2000,
+  maxIntervalMs: 20000,
+  idleCyclesBeforeBackoff: 3,
+  idleBackoffFactor: 1.5,
+};
+
+export const createCaptureScheduler = (options: CaptureSchedulerOptions = DEFAULT_SCHEDULER_OPTIONS) => {
+  const clamp = (ms: number) => Math.round(Math.min(options.maxIntervalMs, Math.max(options.minIntervalMs, ms)));
+
+  let interval = clamp(options.baseIntervalMs);
+  let idleStreak = 0;
+  let rateLimitStreak = 0;
+
+  return {
+    /** Records the outcome of a cycle and returns the delay before the next one. */
+    next: (outcome: CycleOutcome): number => {
+      switch (outcome) {
+        case 'change':
+          // Something is happening: look again soon.
+          idleStreak = 0;
+          rateLimitStreak = 0;
+          interval = clamp(Math.min(interval, options.baseIntervalMs) / 2);
+          break;
+        case 'no_change':
+        case 'skipped':
+          rateLimitStreak = 0;
+          idleStreak++;
+          if (idleStreak >= options.idleCyclesBeforeBackoff) {
+            interval = clamp(interval * options.idleBackoffFactor);
+          } else if (interval < options.baseIntervalMs) {
+            interval = clamp(options.baseIntervalMs);
+          }
+          break;
+        case 'rate_limited':
+          // Exponential backoff from the base interval: 2x, 4x, 8x ...
+          rateLimitStreak++;
+          interval = clamp(options.baseIntervalMs * Math.pow(2, rateLimitStreak));
+          break;
+        case 'error':
+          break;
+      }
+      return interval;
+    },
+    current: () => interval,
+    reset: () => {
+      interval = clamp(options.baseIntervalMs);
+      idleStreak = 0;
+      rateLimitStreak = 0;
+    },
+  };
+};
+
+export type CaptureScheduler = ReturnType<typeof createCaptureScheduler>;
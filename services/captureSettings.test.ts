@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { dataUrlBytes, DEFAULT_CAPTURE_SETTINGS, estimateCycle, estimateImageTokens, formatBytes, formatTokens } from './captureSettings';
+
+describe('estimateImageTokens', () => {
+  it('counts Gemini 768px tiles, with one tile for small images', () => {
+    expect(estimateImageTokens(384, 288, 'gemini')).toBe(258);
+    expect(estimateImageTokens(512, 384, 'gemini')).toBe(258);
+    expect(estimateImageTokens(1024, 768, 'gemini')).toBe(516);
+  });
+
+  it('counts OpenAI-style 512px tiles after scaling the short edge to 768px', () => {
+    expect(estimateImageTokens(512, 384, 'openai-compatible')).toBe(85 + 170);
+    expect(estimateImageTokens(2048, 1536, 'openai-compatible')).toBe(85 + 170 * 4);
+  });
+
+  it('is free for the mock', () => {
+    expect(estimateImageTokens(512, 384, 'mock')).toBe(0);
+  });
+});
+
+describe('estimateCycle', () => {
+  const input = {
+    settings: DEFAULT_CAPTURE_SETTINGS,
+    provider: 'gemini' as const,
+    frameAspect: 4 / 3,
+    measuredFrameBytes: 40_000,
+    cropCount: 0,
+    promptChars: 400,
+    maxOutputTokens: 200,
+    intervalMs: 4000,
+  };
+
+  it('counts the previous frame, prompt text and hourly ceiling', () => {
+    expect(estimateCycle(input)).toEqual({
+      bytesPerCycle: 80_000,
+      measured: true,
+      inputTokensPerCycle: 2 * 258 + 100,
+      outputTokensPerCycle: 200,
+      cyclesPerHour: 900,
+      bytesPerHour: 72_000_000,
+      tokensPerHour: (616 + 200) * 900,
+    });
+  });
+
+  it('halves the images without the previous frame', () => {
+    const estimate = estimateCycle({ ...input, settings: { ...DEFAULT_CAPTURE_SETTINGS, sendPreviousFrame: false } });
+    expect(estimate.bytesPerCycle).toBe(40_000);
+    expect(estimate.inputTokensPerCycle).toBe(258 + 100);
+  });
+});
+
+describe('formatting helpers', () => {
+  it('measures data URLs without their header', () => {
+    expect(dataUrlBytes("data:image/jpeg;base64,AAAA")).toBe(4);
+  });
+
+  it('formats bytes and tokens', () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(2048)).toBe("2.0 KB");
+    expect(formatTokens(999)).toBe("999");
+    expect(formatTokens(1500)).toBe("1.5k");
+    expect(formatTokens(2_500_000)).toBe("2.50M");
+  });
+});
@@ -0,0 +1,147 @@
+import { VisionProviderId } from "../types";
+
+export type CaptureFormat = 'jpeg' | 'webp';
+
+export interface CaptureSettings {
+  /** Width of the frame sent to the model; height follows the source aspect. */
+  width: number;
+  format: CaptureFormat;
+  /** Encoder quality, 0-1. */
+  quality: number;
+  /** Send the previous frame alongside the current one for visual diffing. */
+  sendPreviousFrame: boolean;
+  /** Resolution requested from the camera (an `ideal`, not a guarantee). */
+  cameraWidth: number;
+  cameraHeight: number;
+}
+
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+  width: 512,
+  format: 'jpeg',
+  quality: 0.8,
+  sendPreviousFrame: true,
+  cameraWidth: 640,
+  cameraHeight: 480,
+};
+
+export const CAPTURE_MIME_TYPES: Record<CaptureFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+/** Size of a data URL as sent on the wire (base64, header excluded). */
+export const dataUrlBytes = (dataUrl: string): number => {
+  const comma = dataUrl.indexOf(',');
+  return comma === -1 ? dataUrl.length : dataUrl.length - comma - 1;
+};
+
+// Rough bits per pixel at quality 0.8 for camera footage; only used until a
+// real frame has been measured.
+const BITS_PER_PIXEL: Record<CaptureFormat, number> = { jpeg: 1.6, webp: 1.1 };
+
+const guessFrameBytes = (settings: CaptureSettings, height: number): number => {
+  const bitsPerPixel = BITS_PER_PIXEL[settings.format] * (0.4 + settings.quality * 0.75);
+  // Base64 inflates the encoded image by 4/3.
+  return Math.round((settings.width * height * bitsPerPixel) / 8 * (4 / 3));
+};
+
+/**
+ * Image token cost as billed by the provider family. Gemini counts 258
+ * tokens per 768px tile (one tile when both edges are <= 384px);
+ * OpenAI-style high-detail images cost 85 plus 170 per 512px tile after
+ * fitting into 2048px and scaling the short edge to 768px.
+ */
+export const estimateImageTokens = (width: number, height: number, provider: VisionProviderId): number => {
+  switch (provider) {
+    case 'mock':
+      return 0;
+    case 'openai-compatible': {
+      const fit = Math.min(1, 2048 / Math.max(width, height));
+      const shortEdge = Math.min(width, height) * fit;
+      const scale = fit * Math.min(1, 768 / shortEdge);
+      return 85 + 170 * Math.ceil((width * scale) / 512) * Math.ceil((height * scale) / 512);
+    }
+    default:
+      if (width <= 384 && height <= 384) return 258;
+      return 258 * Math.ceil(width / 768) * Math.ceil(height / 768);
+  }
+};
+
+export interface CycleEstimate {
+  /** Upload size of one analyzed cycle, all images included. */
+  bytesPerCycle: number;
+  /** True when the frame size comes from a real capture rather than a guess. */
+  measured: boolean;
+  inputTokensPerCycle: number;
+  /** Upper bound: the profile's output token limit. */
+  outputTokensPerCycle: number;
+  /** At the given interval, if every cycle passes the change gate. */
+  cyclesPerHour: number;
+  bytesPerHour: number;
+  tokensPerHour: number;
+}
+
+export interface CycleEstimateInput {
+  settings: CaptureSettings;
+  provider: VisionProviderId;
+  /** Source width / height; 4:3 is assumed until the feed reports it. */
+  frameAspect: number | null;
+  /** Size of the last frame actually sent, if any, in wire bytes. */
+  measuredFrameBytes: number | null;
+  /** Region crops sent each cycle, at most 512px on the long edge. */
+  cropCount: number;
+  /** Any other images sent each cycle (e.g. burst frames), by pixel size. */
+  extraImages?: { width: number; height: number }[];
+  /** System instruction plus context text, in characters. */
+  promptChars: number;
+  maxOutputTokens: number;
+  intervalMs: number;
+}
+
+// Crops have no fixed size; a 512px-square is the worst case per crop.
+const CROP_EDGE = 512;
+// Text tokenizes at roughly four characters per token across providers.
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * What one vision call costs with the given capture settings, and what an
+ * hour of continuous change would cost. The change gate usually skips
+ * most cycles, so the hourly figures are a ceiling, not a forecast.
+ */
+export const estimateCycle = ({
+  settings, provider, frameAspect, measuredFrameBytes, cropCount, extraImages = [], promptChars, maxOutputTokens, intervalMs,
+}: CycleEstimateInput): CycleEstimate => {
+  const height = Math.round(settings.width / (frameAspect || 4 / 3));
+  const frameBytes = measuredFrameBytes ?? guessFrameBytes(settings, height);
+  const frames = settings.sendPreviousFrame ? 2 : 1;
+  const cropBytes = cropCount * guessFrameBytes({ ...settings, width: CROP_EDGE }, CROP_EDGE);
+  const extraBytes = extraImages.reduce((total, image) => total + guessFrameBytes({ ...settings, width: image.width }, image.height), 0);
+
+  const bytesPerCycle = frames * frameBytes + cropBytes + extraBytes;
+  const inputTokensPerCycle =
+    frames * estimateImageTokens(settings.width, height, provider) +
+    cropCount * estimateImageTokens(CROP_EDGE, CROP_EDGE, provider) +
+    extraImages.reduce((total, image) => total + estimateImageTokens(image.width, image.height, provider), 0) +
+    Math.ceil(promptChars / CHARS_PER_TOKEN);
+  const cyclesPerHour = intervalMs > 0 ? 3600000 / intervalMs : 0;
+
+  return {
+    bytesPerCycle,
+    measured: measuredFrameBytes !== null,
+    inputTokensPerCycle,
+    outputTokensPerCycle: maxOutputTokens,
+    cyclesPerHour,
+    bytesPerHour: bytesPerCycle * cyclesPerHour,
+    tokensPerHour: (inputTokensPerCycle + maxOutputTokens) * cyclesPerHour,
+  };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${Math.round(bytes)} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export const formatTokens = (tokens: number): string =>
+  tokens < 1000 ? `${Math.round(tokens)}` : tokens < 1000000 ? `${(tokens / 1000).toFixed(1)}k` : `${(tokens / 1000000).toFixed(2)}M`;
@@ -0,0 +1,153 @@
+/**
+ * Client-side change detection. Frames are reduced to a tiny grayscale
+ * "signature" so we can decide locally whether a frame is worth sending
+ * to the vision model at all.
+ */
+
+import { RegionOfInterest } from "../types";
+import { buildCellMask, paintExclusions } from "./regions";
+
+export const SIGNATURE_WIDTH = 32;
+export const SIGNATURE_HEIGHT = 24;
+const HISTOGRAM_BINS = 16;
+// Per-cell luma change (0-255) below which we treat the difference as sensor noise.
+const NOISE_FLOOR = 16;
+// Minimum fraction of the frame (or luma histogram) that must change before we call the vision model.
+export const DEFAULT_CHANGE_THRESHOLD = 0.02;
+
+export interface FrameSignature {
+  luma: Uint8ClampedArray;
+  histogram: number[];
+  /** Cells that count for change detection (all of them unless regions are set). */
+  activeCells: number;
+}
+
+export interface FrameDifference {
+  /** Fraction of cells whose luma moved more than the noise floor (0-1). */
+  changedArea: number;
+  /** Half L1 distance between normalized luma histograms (0-1). Catches lighting shifts. */
+  histogramDelta: number;
+}
+
+export interface ChangeGateDecision {
+  changed: boolean;
+  score: number;
+  reason: string;
+}
+
+/**
+ * Draws `source` into the provided (small) canvas and reduces it to a signature.
+ * With regions of interest, only cells inside include regions and outside
+ * exclusions contribute; the others are zeroed so they never register change.
+ */
+export const computeFrameSignature = (
+  source: CanvasImageSource,
+  canvas: HTMLCanvasElement,
+  regions: RegionOfInterest[] = []
+): FrameSignature | null => {
+  if (canvas.width !== SIGNATURE_WIDTH) canvas.width = SIGNATURE_WIDTH;
+  if (canvas.height !== SIGNATURE_HEIGHT) canvas.height = SIGNATURE_HEIGHT;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  paintExclusions(ctx, SIGNATURE_WIDTH, SIGNATURE_HEIGHT, regions);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+
+  const cells = SIGNATURE_WIDTH * SIGNATURE_HEIGHT;
+  const mask = buildCellMask(regions, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const luma = new Uint8ClampedArray(cells);
+  const histogram = new Array(HISTOGRAM_BINS).fill(0);
+  let activeCells = 0;
+
+  for (let i = 0; i < cells; i++) {
+    if (mask && !mask[i]) continue;
+    activeCells++;
+    const o = i * 4;
+    // Rec. 601 luma
+    const y = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+    luma[i] = y;
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(y / (256 / HISTOGRAM_BINS)))]++;
+  }
+
+  return { luma, histogram: histogram.map(count => count / Math.max(1, activeCells)), activeCells };
+};
+
+export const compareSignatures = (a: FrameSignature, b: FrameSignature): FrameDifference => {
+  let changedCells = 0;
+  for (let i = 0; i < a.luma.length; i++) {
+    if (Math.abs(a.luma[i] - b.luma[i]) > NOISE_FLOOR) changedCells++;
+  }
+
+  let histogramDistance = 0;
+  for (let i = 0; i < a.histogram.length; i++) {
+    histogramDistance += Math.abs(a.histogram[i] - b.histogram[i]);
+  }
+
+  return {
+    changedArea: changedCells / Math.max(1, a.activeCells),
+    histogramDelta: histogramDistance / 2,
+  };
+};
+
+/** Where two signatures differ: centroid of the changed cells, as fractions of the frame. */
+export interface ChangeLocation {
+  x: number;
+  y: number;
+  /** Fraction of active cells that changed (0-1). */
+  area: number;
+  /** Half L1 distance between the luma histograms (0-1). */
+  histogramDelta: number;
+}
+
+export const locateChange = (a: FrameSignature, b: FrameSignature): ChangeLocation => {
+  let changedCells = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let i = 0; i < a.luma.length; i++) {
+    if (Math.abs(a.luma[i] - b.luma[i]) <= NOISE_FLOOR) continue;
+    changedCells++;
+    sumX += (i % SIGNATURE_WIDTH) + 0.5;
+    sumY += Math.floor(i / SIGNATURE_WIDTH) + 0.5;
+  }
+  const { changedArea, histogramDelta } = compareSignatures(a, b);
+  return changedCells === 0
+    ? { x: 0.5, y: 0.5, area: 0, histogramDelta }
+    : { x: sumX / changedCells / SIGNATURE_WIDTH, y: sumY / changedCells / SIGNATURE_HEIGHT, area: changedArea, histogramDelta };
+};
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Remembers the signature of the last frame that was actually analyzed
+ * and compares every new candidate frame against it.
+ */
+export const createChangeGate = () => {
+  let reference: FrameSignature | null = null;
+
+  return {
+    evaluate: (signature: FrameSignature, threshold: number): ChangeGateDecision => {
+      if (!reference) {
+        return { changed: true, score: 1, reason: "no reference frame" };
+      }
+      const diff = compareSignatures(reference, signature);
+      const score = Math.max(diff.changedArea, diff.histogramDelta);
+      const detail = `area Δ ${pct(diff.changedArea)}, histogram Δ ${pct(diff.histogramDelta)}`;
+      return score < threshold
+        ? { changed: false, score, reason: `${detail} below ${pct(threshold)} threshold` }
+        : { changed: true, score, reason: detail };
+    },
+    /** Where `signature` differs from the reference, or null without one. */
+    locate: (signature: FrameSignature): ChangeLocation | null =>
+      reference ? locateChange(reference, signature) : null,
+    commit: (signature: FrameSignature) => {
+      reference = signature;
+    },
+    reset: () => {
+      reference = null;
+    },
+  };
+};
+
+export type ChangeGate = ReturnType<typeof createChangeGate>;
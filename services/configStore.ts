@@ -0,0 +1,231 @@
+import { useSyncExternalStore } from "react";
+import { PromptProfile, TriggerRule, VisionProviderId } from "../types";
+import { BridgeQueueOptions, DEFAULT_BRIDGE_QUEUE_OPTIONS } from "./bridgeQueue";
+import { BurstSettings, DEFAULT_BURST_SETTINGS } from "./burstCapture";
+import { DEFAULT_CHANGE_THRESHOLD } from "./changeDetector";
+import { DEFAULT_DEGRADED_MODE_SETTINGS, DegradedModeSettings } from "./degradedMode";
+import { CaptureSettings, DEFAULT_CAPTURE_SETTINGS } from "./captureSettings";
+import { CameraSettings, DEFAULT_CAMERA_SETTINGS } from "./cameras";
+import { CaptureSchedulerOptions, DEFAULT_SCHEDULER_OPTIONS } from "./captureScheduler";
+import { DEFAULT_DETECTION_SETTINGS, DetectionSettings } from "./objectDetector";
+import { DEFAULT_PROBE_CONFIG, ProbeConfig } from "./probeMode";
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE_ID, withBuiltInProfiles } from "./promptProfiles";
+import { DEFAULT_PRIVACY_SETTINGS, PrivacySettings } from "./privacyFilter";
+import { DEFAULT_REGION_SETTINGS, RegionSettings } from "./regions";
+import { DEFAULT_SCENE_MEMORY_OPTIONS, SceneMemoryOptions } from "./sceneMemory";
+import { DEFAULT_TIMELINE_RETENTION } from "./timelineView";
+import { DEFAULT_TRIGGER_RULES } from "./triggers";
+import { DEFAULT_USAGE_SETTINGS, UsageSettings } from "./usageMeter";
+
+/**
+ * Every user-tunable, non-secret setting of the app. Credentials live in
+ * services/credentials.ts and are deliberately kept out of this object.
+ */
+export interface AppConfig {
+  vision: {
+    provider: VisionProviderId;
+    /** Model override; empty means the provider default. */
+    model: string;
+    /** API root for the OpenAI-compatible provider. */
+    baseUrl: string;
+    /** Backend proxy root (server/index.js). */
+    proxyUrl: string;
+  };
+  capture: {
+    changeThreshold: number;
+    scheduler: CaptureSchedulerOptions;
+    frame: CaptureSettings;
+    burst: BurstSettings;
+  };
+  cameras: CameraSettings;
+  prompt: {
+    profiles: PromptProfile[];
+    activeProfileId: string;
+  };
+  probe: ProbeConfig;
+  degraded: DegradedModeSettings;
+  sceneMemory: SceneMemoryOptions;
+  bridge: BridgeQueueOptions;
+  triggers: {
+    rules: TriggerRule[];
+  };
+  regions: RegionSettings;
+  privacy: PrivacySettings;
+  detection: DetectionSettings;
+  usage: UsageSettings;
+  timeline: {
+    /** Log entries (and transcript messages) kept in memory; older ones are dropped. */
+    retention: number;
+    /** Attach a thumbnail of the analyzed frame to each visual entry. */
+    thumbnails: boolean;
+    /** Also attach the previously analyzed frame, for before/after comparison. */
+    beforeAfter: boolean;
+  };
+}
+
+const CONFIG_KEY = 'VISUAL_CORTEX_CONFIG';
+
+// Keys written by earlier releases, migrated into CONFIG_KEY on first load.
+const LEGACY_KEYS = {
+  changeThreshold: 'CHANGE_THRESHOLD',
+  profiles: 'PROMPT_PROFILES',
+  activeProfileId: 'ACTIVE_PROMPT_PROFILE',
+  probe: 'PROBE_CONFIG',
+};
+
+/**
+ * Build-time env (vite.config.ts) supplies the defaults; anything the
+ * user changes in the UI is persisted and wins from then on. Vision
+ * fields still equal to their env value are not persisted (see
+ * `toStored`), so a later `.env` change is picked up.
+ */
+const createDefaultConfig = (): AppConfig => ({
+  vision: {
+    provider: (process.env.VISION_PROVIDER || (process.env.PROXY_URL ? 'proxy' : 'gemini')) as VisionProviderId,
+    model: process.env.VISION_MODEL || "",
+    baseUrl: process.env.VISION_BASE_URL || "",
+    proxyUrl: process.env.PROXY_URL || "",
+  },
+  capture: {
+    changeThreshold: DEFAULT_CHANGE_THRESHOLD,
+    scheduler: DEFAULT_SCHEDULER_OPTIONS,
+    frame: DEFAULT_CAPTURE_SETTINGS,
+    burst: DEFAULT_BURST_SETTINGS,
+  },
+  cameras: DEFAULT_CAMERA_SETTINGS,
+  prompt: {
+    profiles: BUILT_IN_PROFILES,
+    activeProfileId: DEFAULT_PROFILE_ID,
+  },
+  probe: DEFAULT_PROBE_CONFIG,
+  degraded: DEFAULT_DEGRADED_MODE_SETTINGS,
+  sceneMemory: DEFAULT_SCENE_MEMORY_OPTIONS,
+  bridge: DEFAULT_BRIDGE_QUEUE_OPTIONS,
+  triggers: {
+    rules: DEFAULT_TRIGGER_RULES,
+  },
+  regions: DEFAULT_REGION_SETTINGS,
+  privacy: DEFAULT_PRIVACY_SETTINGS,
+  detection: DEFAULT_DETECTION_SETTINGS,
+  usage: DEFAULT_USAGE_SETTINGS,
+  timeline: {
+    retention: DEFAULT_TIMELINE_RETENTION,
+    thumbnails: true,
+    beforeAfter: true,
+  },
+});
+
+const readJson = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch (error) {
+    console.warn(`Ignoring corrupt ${key}:`, error);
+    return undefined;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Overlays stored values onto `defaults`, recursing into nested sections.
+ * A stored value is dropped when its type differs from the default's, so a
+ * corrupt or outdated entry falls back to the default instead of breaking
+ * the app. Arrays (profiles, rules, regions, cameras) are taken whole.
+ */
+const mergeStored = <T>(defaults: T, value: unknown): T => {
+  if (!isRecord(defaults) || !isRecord(value)) return defaults;
+  const merged: Record<string, unknown> = { ...defaults };
+  Object.entries(value).forEach(([key, stored]) => {
+    const fallback = merged[key];
+    if (fallback === undefined || fallback === null) {
+      merged[key] = stored;
+    } else if (isRecord(fallback)) {
+      merged[key] = mergeStored(fallback, stored);
+    } else if (typeof stored === typeof fallback && Array.isArray(stored) === Array.isArray(fallback)) {
+      merged[key] = stored;
+    }
+  });
+  return merged as T;
+};
+
+const readLegacyConfig = (): Record<string, unknown> => {
+  const legacy: Record<string, unknown> = {};
+  const threshold = Number(localStorage.getItem(LEGACY_KEYS.changeThreshold));
+  if (Number.isFinite(threshold) && threshold > 0) legacy.capture = { changeThreshold: threshold };
+  const profiles = readJson(LEGACY_KEYS.profiles);
+  const activeProfileId = localStorage.getItem(LEGACY_KEYS.activeProfileId);
+  if (profiles || activeProfileId) legacy.prompt = { ...(Array.isArray(profiles) && { profiles }), ...(activeProfileId && { activeProfileId }) };
+  const probe = readJson(LEGACY_KEYS.probe);
+  if (isRecord(probe)) legacy.probe = probe;
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+  return legacy;
+};
+
+/** What goes to storage: everything except vision fields that merely repeat the env default. */
+const toStored = (config: AppConfig) => {
+  const envVision = createDefaultConfig().vision;
+  const vision = Object.fromEntries(
+    Object.entries(config.vision).filter(([key, value]) => value !== envVision[key as keyof AppConfig['vision']])
+  );
+  return { ...config, vision };
+};
+
+const saveConfig = (config: AppConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(toStored(config)));
+};
+
+const loadConfig = (): AppConfig => {
+  const defaults = createDefaultConfig();
+  const saved = readJson(CONFIG_KEY);
+  const stored = isRecord(saved) ? saved : readLegacyConfig();
+
+  const config = mergeStored(defaults, stored);
+  config.prompt.profiles = withBuiltInProfiles(config.prompt.profiles);
+  // Persist migrated legacy settings right away; their old keys are gone now.
+  if (!isRecord(saved) && Object.keys(stored).length > 0) saveConfig(config);
+  return config;
+};
+
+let current: AppConfig = loadConfig();
+const listeners = new Set<() => void>();
+
+export const getConfig = (): AppConfig => current;
+
+export const updateConfig = (updater: (config: AppConfig) => AppConfig) => {
+  current = updater(current);
+  saveConfig(current);
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Shallow-merges `patch` into one section of the config.
+ */
+export const updateConfigSection = <K extends keyof AppConfig>(section: K, patch: Partial<AppConfig[K]>) => {
+  updateConfig(config => ({ ...config, [section]: { ...config[section], ...patch } }));
+};
+
+// Sections holding what the user authored rather than tuned; a reset leaves them alone.
+const USER_CONTENT_SECTIONS = ['prompt', 'triggers', 'regions', 'cameras'] as const;
+
+/**
+ * Restores every tuning setting to its build-time default. Prompt
+ * profiles, trigger rules, regions (including private zones) and cameras
+ * are kept.
+ */
+export const resetConfig = () => {
+  updateConfig(config => ({
+    ...createDefaultConfig(),
+    ...Object.fromEntries(USER_CONTENT_SECTIONS.map(section => [section, config[section]])),
+  }));
+};
+
+export const subscribeConfig = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useAppConfig = (): AppConfig => useSyncExternalStore(subscribeConfig, getConfig);
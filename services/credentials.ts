@@ -0,0 +1,70 @@
+/**
+ * Credential resolution: build-time env first, then browser storage,
+ * otherwise the UI has to prompt (KeyEntryModal).
+ */
+
+export type CredentialSource = 'env' | 'storage' | 'none';
+
+export interface Credentials {
+  geminiApiKey: string;
+  geminiApiKeySource: CredentialSource;
+  agentId: string;
+  agentIdSource: CredentialSource;
+  /** Bearer token for the OpenAI-compatible provider (optional). */
+  visionApiKey: string;
+  visionApiKeySource: CredentialSource;
+}
+
+const STORAGE_KEYS = {
+  geminiApiKey: 'GEMINI_API_KEY',
+  agentId: 'AGENT_ID',
+  visionApiKey: 'VISION_API_KEY',
+};
+
+const resolve = (envValue: string | undefined, storageKey: string): [string, CredentialSource] => {
+  if (envValue) return [envValue, 'env'];
+  const stored = localStorage.getItem(storageKey);
+  if (stored) return [stored, 'storage'];
+  return ["", 'none'];
+};
+
+export const resolveCredentials = (): Credentials => {
+  const [geminiApiKey, geminiApiKeySource] = resolve(process.env.GEMINI_API_KEY || process.env.API_KEY, STORAGE_KEYS.geminiApiKey);
+  const [agentId, agentIdSource] = resolve(process.env.AGENT_ID, STORAGE_KEYS.agentId);
+  const [visionApiKey, visionApiKeySource] = resolve(process.env.VISION_API_KEY, STORAGE_KEYS.visionApiKey);
+  return { geminiApiKey, geminiApiKeySource, agentId, agentIdSource, visionApiKey, visionApiKeySource };
+};
+
+export const saveCredentials = (values: Partial<Pick<Credentials, 'geminiApiKey' | 'agentId' | 'visionApiKey'>>) => {
+  (Object.keys(values) as (keyof typeof STORAGE_KEYS)[]).forEach(name => {
+    const value = values[name]?.trim();
+    if (value) localStorage.setItem(STORAGE_KEYS[name], value);
+    else localStorage.removeItem(STORAGE_KEYS[name]);
+  });
+};
+
+/** Removes every stored credential. Env-provided values are unaffected. */
+export const clearStoredCredentials = () => {
+  Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+/** "AIza…x1y2" style preview that is safe to show on screen. */
+export const maskSecret = (secret: string): string =>
+  secret.length <= 8 ? "•".repeat(secret.length) : `${secret.slice(0, 4)}…${secret.slice(-4)}`;
+
+/**
+ * Checks a Gemini key with a cheap metadata call (model listing, no tokens
+ * billed). Resolves to an error message, or null when the key works.
+ */
+export const validateGeminiKey = async (apiKey: string): Promise<string | null> => {
+  try {
+    const response = await fetch("https://generativelanguage.googleapis.com/v1beta/models?pageSize=1", {
+      headers: { 'x-goog-api-key': apiKey },
+    });
+    if (response.ok) return null;
+    if (response.status === 400 || response.status === 401 || response.status === 403) return "API key rejected by Gemini.";
+    return `Validation failed (${response.status}).`;
+  } catch {
+    return "Could not reach Gemini to validate the key.";
+  }
+};
@@ -0,0 +1,126 @@
+import { Observation, ObservationError, SceneObservation } from "../types";
+import { ChangeLocation } from "./changeDetector";
+import { describePosition, TrackedObject } from "./objectTracker";
+
+export interface DegradedModeSettings {
+  /** Fall back to local motion updates when the vision API keeps failing. */
+  enabled: boolean;
+  /** Consecutive outage failures before switching to degraded mode. */
+  failureThreshold: number;
+  /** Time between background probes of the vision API while degraded. */
+  probeIntervalMs: number;
+  /** Minimum time between two motion updates sent to the agent. */
+  motionUpdateCooldownMs: number;
+}
+
+export const DEFAULT_DEGRADED_MODE_SETTINGS: DegradedModeSettings = {
+  enabled: true,
+  failureThreshold: 3,
+  probeIntervalMs: 30000,
+  motionUpdateCooldownMs: 15000,
+};
+
+export interface VisionHealthState {
+  status: 'healthy' | 'degraded';
+  /** Outage failures in a row. */
+  failures: number;
+  lastError: string | null;
+  /** When degraded mode started. */
+  degradedSince: number | null;
+  /** When the next probe may run, while degraded. */
+  nextProbeAt: number | null;
+}
+
+export const HEALTHY_STATE: VisionHealthState = {
+  status: 'healthy',
+  failures: 0,
+  lastError: null,
+  degradedSince: null,
+  nextProbeAt: null,
+};
+
+/**
+ * Failures that mean the API cannot be used right now, as opposed to one
+ * bad response: unreachable, refused credentials, rate limited, or a
+ * server error.
+ */
+export const isOutage = (error: ObservationError): boolean =>
+  error.code === 'network' || error.code === 'unauthorized' || error.code === 'rate_limited' || (error.status ?? 0) >= 500;
+
+const describeError = (error: ObservationError) => (error.status ? `HTTP ${error.status}` : error.code);
+
+/**
+ * Tracks whether the vision API is usable. After `failureThreshold`
+ * outage failures in a row it reports `degraded`; from then on the loop
+ * only calls the API when a probe is due, and the first success recovers.
+ */
+export const createVisionHealth = () => {
+  let state: VisionHealthState = HEALTHY_STATE;
+
+  return {
+    /** Records the outcome of one vision call; returns the transition it caused, if any. */
+    record: (observation: Observation, settings: DegradedModeSettings, now: number = Date.now()): 'degraded' | 'recovered' | null => {
+      if (observation.kind !== 'error' || !isOutage(observation)) {
+        const recovered = state.status === 'degraded';
+        state = HEALTHY_STATE;
+        return recovered ? 'recovered' : null;
+      }
+      const failures = state.failures + 1;
+      const lastError = describeError(observation);
+      if (state.status === 'degraded') {
+        state = { ...state, failures, lastError, nextProbeAt: now + settings.probeIntervalMs };
+        return null;
+      }
+      if (settings.enabled && failures >= settings.failureThreshold) {
+        state = { status: 'degraded', failures, lastError, degradedSince: now, nextProbeAt: now + settings.probeIntervalMs };
+        return 'degraded';
+      }
+      state = { ...state, failures, lastError };
+      return null;
+    },
+    isDegraded: () => state.status === 'degraded',
+    probeDue: (now: number = Date.now()) => state.status === 'degraded' && state.nextProbeAt !== null && now >= state.nextProbeAt,
+    state: () => state,
+    reset: () => {
+      state = HEALTHY_STATE;
+    },
+  };
+};
+
+export type VisionHealth = ReturnType<typeof createVisionHealth>;
+
+// Changed area above which motion is reported as frame-wide.
+const LARGE_MOTION_AREA = 0.4;
+// Histogram shift that, when larger than the moved area, reads as a lighting change.
+const LIGHTING_DELTA = 0.1;
+
+const isLightingChange = (location: ChangeLocation) =>
+  location.histogramDelta > location.area && location.histogramDelta >= LIGHTING_DELTA;
+
+/** Plain-language description of a pixel-diff change, e.g. "Motion detected near the left of the frame." */
+export const describeMotion = (location: ChangeLocation | null): string => {
+  if (!location) return "Something changed in view.";
+  if (isLightingChange(location)) return "The lighting changed.";
+  if (location.area >= LARGE_MOTION_AREA) return "Large movement across most of the frame.";
+  return `Motion detected near the ${describePosition({ x: location.x, y: location.y, width: 0, height: 0 })} of the frame.`;
+};
+
+/**
+ * Observation for a degraded-mode cycle. Confidence is deliberately low:
+ * nothing here was actually recognized, except what the local object
+ * tracker (if running) sees.
+ */
+export const motionObservation = (location: ChangeLocation | null, objects: TrackedObject[]): SceneObservation => {
+  const seen = objects.filter(object => object.misses === 0);
+  const summary = describeMotion(location);
+  return {
+    kind: 'scene',
+    changed: true,
+    summary: seen.length > 0
+      ? `${summary} Local detector sees: ${seen.map(object => `${object.label} #${object.id}`).join(", ")}.`
+      : summary,
+    entities: seen.map(object => ({ label: object.label })),
+    eventType: location && isLightingChange(location) ? 'lighting' : 'other',
+    confidence: 0.3,
+  };
+};
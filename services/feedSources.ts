@@ -0,0 +1,79 @@
+import { FeedSource } from "../types";
+
+export type CameraSource = Extract<FeedSource, { kind: 'camera' }>;
+
+export const DEFAULT_CAMERA_SOURCE: CameraSource = { kind: 'camera', deviceId: null, label: 'Default Camera' };
+
+// How long each still stays on screen when playing an image sequence.
+export const DEFAULT_IMAGE_FRAME_MS = 2000;
+
+export interface CameraResolution {
+  width: number;
+  height: number;
+}
+
+const DEFAULT_CAMERA_RESOLUTION: CameraResolution = { width: 640, height: 480 };
+
+/**
+ * Opens the MediaStream behind live sources (camera, screen).
+ * File-based sources have no stream and return null. The camera
+ * resolution is a preference; the browser picks the closest mode.
+ */
+export const acquireStream = async (
+  source: FeedSource,
+  resolution: CameraResolution = DEFAULT_CAMERA_RESOLUTION
+): Promise<MediaStream | null> => {
+  const constraints = { width: { ideal: resolution.width }, height: { ideal: resolution.height } };
+  switch (source.kind) {
+    case 'camera':
+      return navigator.mediaDevices.getUserMedia({
+        video: source.deviceId
+          ? { ...constraints, deviceId: { exact: source.deviceId } }
+          : { ...constraints, facingMode: 'user' }
+      });
+    case 'screen':
+      return navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    default:
+      return null;
+  }
+};
+
+/**
+ * Lists available cameras. Labels are empty until the user has granted
+ * camera permission once, so we fall back to a numbered name.
+ */
+export const listCameras = async (): Promise<CameraSource[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput')
+    .map((device, index) => ({
+      kind: 'camera' as const,
+      deviceId: device.deviceId || null,
+      label: device.label || `Camera ${index + 1}`,
+    }));
+};
+
+export const createVideoFileSource = (file: File): FeedSource => ({
+  kind: 'video',
+  file,
+  label: file.name,
+});
+
+/**
+ * Builds an image-sequence source from a folder selection, keeping only
+ * images and ordering them by path so numbered frames play in order.
+ */
+export const createImageSequenceSource = (fileList: FileList | File[]): FeedSource | null => {
+  const files = Array.from(fileList)
+    .filter(file => file.type.startsWith('image/'))
+    .sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name, undefined, { numeric: true }));
+  if (files.length === 0) return null;
+  const folder = files[0].webkitRelativePath.split('/')[0];
+  return {
+    kind: 'images',
+    files,
+    frameDurationMs: DEFAULT_IMAGE_FRAME_MS,
+    label: `${folder || 'Images'} (${files.length} frames)`,
+  };
+};
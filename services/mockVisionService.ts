@@ -0,0 +1,34 @@
+import { SceneObservation, VisionProvider, VisionRequest, VisionResponse } from "../types";
+
+type ScriptedObservation = Omit<SceneObservation, 'kind' | 'changed'>;
+
+const DEFAULT_SCRIPT: ScriptedObservation[] = [
+  { summary: "A person sits at a desk facing the camera.", entities: [{ label: "person" }, { label: "desk" }], eventType: 'enter', confidence: 0.9 },
+  { summary: "He picks up a mug and drinks.", entities: [{ label: "person" }, { label: "mug" }], eventType: 'pickup', confidence: 0.85 },
+  { summary: "He puts the mug back down on the desk.", entities: [{ label: "person" }, { label: "mug" }], eventType: 'put-down', confidence: 0.85 },
+  { summary: "The lights dim slightly.", entities: [], eventType: 'lighting', confidence: 0.7 },
+];
+
+const NO_CHANGE_RESPONSE = JSON.stringify({ changed: false, summary: "", entities: [], eventType: null, confidence: 1 });
+
+/**
+ * Deterministic offline vision adapter for tests and demos.
+ * - Identical consecutive frames: NO_CHANGE.
+ * - Otherwise: walks the script in order, wrapping around.
+ */
+export const createMockProvider = (script: ScriptedObservation[] = DEFAULT_SCRIPT): VisionProvider => {
+  let cursor = 0;
+
+  return {
+    id: 'mock',
+    label: 'Mock (offline)',
+    describeDiff: async (request: VisionRequest): Promise<VisionResponse> => {
+      if (request.previousFrame && request.previousFrame === request.currentFrame) {
+        return { text: NO_CHANGE_RESPONSE };
+      }
+      const entry = script[cursor % script.length];
+      cursor++;
+      return { text: JSON.stringify({ changed: true, ...entry }) };
+    }
+  };
+};
@@ -0,0 +1,80 @@
+import { FrameRegion } from "../types";
+
+export interface DetectionSettings {
+  /** Run the on-device detector while the live feed is active. */
+  enabled: boolean;
+  /** Detections scoring below this are ignored. */
+  minScore: number;
+  /** Time between two detector passes. */
+  intervalMs: number;
+  /** Pass the tracked objects to the vision model as grounding context. */
+  groundPrompt: boolean;
+  /** Log enter/exit events from the tracker, sync them to the agent and run triggers on them. */
+  localEvents: boolean;
+  /**
+   * Self-hosted COCO-SSD model.json, e.g. under `public/`. Empty downloads
+   * the weights from Google's TF.js model storage, which needs network
+   * access whenever detection starts.
+   */
+  modelUrl: string;
+}
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  enabled: false,
+  minScore: 0.55,
+  intervalMs: 1000,
+  groundPrompt: true,
+  localEvents: true,
+  modelUrl: "",
+};
+
+/** Width frames are scaled to before detection; the model works at 300px anyway. */
+export const DETECTION_INPUT_WIDTH = 320;
+
+const MAX_DETECTIONS = 20;
+
+/** One detector hit, with the box as a fraction of the frame. */
+export interface Detection {
+  label: string;
+  score: number;
+  box: FrameRegion;
+}
+
+export interface ObjectDetector {
+  detect: (frame: HTMLCanvasElement, minScore: number) => Promise<Detection[]>;
+  dispose: () => void;
+}
+
+/** Where `cocoSsd.load` fetches the lite MobileNet v2 weights when no model URL is set. */
+export const HOSTED_MODEL_URL = "https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2/model.json";
+
+/**
+ * Loads COCO-SSD (lite MobileNet v2) on the TF.js CPU backend. The
+ * libraries are bundled but imported on demand; the weights come from
+ * `modelUrl`, or from the hosted copy when it is empty.
+ */
+export const loadObjectDetector = async (modelUrl: string = ""): Promise<ObjectDetector> => {
+  const [tf, cocoSsd] = await Promise.all([
+    import("@tensorflow/tfjs-core"),
+    import("@tensorflow-models/coco-ssd"),
+    import("@tensorflow/tfjs-backend-cpu"),
+  ]);
+  await tf.setBackend('cpu');
+  await tf.ready();
+  const model = await cocoSsd.load({ base: 'lite_mobilenet_v2', modelUrl: modelUrl || undefined }).catch((error: Error) => {
+    if (modelUrl) throw error;
+    throw new Error(`Could not download the hosted COCO-SSD weights (${error.message}). Self-host them and set a Model URL to detect offline.`);
+  });
+
+  return {
+    detect: async (frame, minScore) => {
+      const objects = await model.detect(frame, MAX_DETECTIONS, minScore);
+      return objects.map(({ bbox: [x, y, width, height], class: label, score }) => ({
+        label,
+        score,
+        box: { x: x / frame.width, y: y / frame.height, width: width / frame.width, height: height / frame.height },
+      }));
+    },
+    dispose: () => model.dispose(),
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createObjectTracker, DEFAULT_TRACKER_OPTIONS, describeObjects, describePosition, intersectionOverUnion } from './objectTracker';
+import { Detection } from './objectDetector';
+
+const person = (x: number): Detection => ({ label: 'person', score: 0.9, box: { x, y: 0.3, width: 0.2, height: 0.4 } });
+
+describe('intersectionOverUnion', () => {
+  it('is 1 for identical boxes and 0 for disjoint ones', () => {
+    const box = { x: 0, y: 0, width: 0.5, height: 0.5 };
+    expect(intersectionOverUnion(box, box)).toBe(1);
+    expect(intersectionOverUnion(box, { x: 0.6, y: 0.6, width: 0.2, height: 0.2 })).toBe(0);
+  });
+});
+
+describe('describePosition', () => {
+  it('names the thirds of the frame', () => {
+    expect(describePosition({ x: 0, y: 0, width: 0.2, height: 0.2 })).toBe("top-left");
+    expect(describePosition({ x: 0.4, y: 0.4, width: 0.2, height: 0.2 })).toBe("center");
+    expect(describePosition({ x: 0.8, y: 0.4, width: 0.2, height: 0.2 })).toBe("right");
+  });
+});
+
+describe('createObjectTracker', () => {
+  it('confirms a track once it is old enough and exits it after three misses', () => {
+    const tracker = createObjectTracker();
+    expect(tracker.update([person(0.1)], 0).events).toEqual([]);
+    expect(tracker.update([person(0.11)], 1000).events).toEqual([]);
+    expect(tracker.update([person(0.12)], 2000).events).toEqual([]);
+    const entered = tracker.update([person(0.12)], 3000);
+    expect(entered.events.map(event => event.type)).toEqual(['enter']);
+    expect(entered.objects[0].id).toBe(1);
+
+    expect(tracker.update([], 4000).events).toEqual([]);
+    expect(tracker.update([], 5000).events).toEqual([]);
+    expect(tracker.update([], 6000).events).toEqual([]);
+    const exited = tracker.update([], 7000);
+    expect(exited.events.map(event => `${event.type} #${event.object.id}`)).toEqual(['exit #1']);
+    expect(exited.objects).toEqual([]);
+  });
+
+  it('drops one-frame flickers without events', () => {
+    const tracker = createObjectTracker();
+    tracker.update([person(0.1)], 0);
+    expect(tracker.update([], 1).events).toEqual([]);
+    expect(tracker.objects()).toEqual([]);
+  });
+
+  it('never confirms a detection flickering around the score threshold', () => {
+    const tracker = createObjectTracker();
+    for (let pass = 0; pass < 20; pass += 1) {
+      const { events } = tracker.update(pass % 3 === 2 ? [] : [person(0.1)], pass * 1000);
+      expect(events).toEqual([]);
+    }
+    expect(tracker.objects()).toEqual([]);
+  });
+
+  it('keeps ids stable for overlapping detections of the same label', () => {
+    const tracker = createObjectTracker({ ...DEFAULT_TRACKER_OPTIONS, minAgeMs: 0 });
+    tracker.update([person(0.1), person(0.7)], 0);
+    const { objects } = tracker.update([person(0.72), person(0.11)], 1);
+    expect(objects.map(object => [object.id, object.box.x])).toEqual([[1, 0.11], [2, 0.72]]);
+    expect(describeObjects(objects)).toEqual(["person #1 at left (90%)", "person #2 at right (90%)"]);
+  });
+});
@@ -0,0 +1,162 @@
+import { FrameRegion, SceneObservation } from "../types";
+import { Detection } from "./objectDetector";
+
+/** A detection followed across frames under a stable id. */
+export interface TrackedObject {
+  id: number;
+  label: string;
+  score: number;
+  box: FrameRegion;
+  /** Passes the track was matched in; it is confirmed once this reaches `confirmHits` (and `minAgeMs` has passed). */
+  hits: number;
+  /** Detector passes since the track was last matched. */
+  misses: number;
+  confirmed: boolean;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface TrackEvent {
+  type: 'enter' | 'exit';
+  object: TrackedObject;
+  at: number;
+}
+
+export interface ObjectTrackerOptions {
+  /** Minimum box overlap (intersection over union) to continue a track. */
+  minIou: number;
+  /** Matches needed before a track counts as present, so one-frame flickers never "enter". */
+  confirmHits: number;
+  /**
+   * Time a track must have been matched without a miss before it counts as
+   * present. A detection hovering around the score threshold drops out
+   * within a pass or two, so it never enters (and never exits).
+   */
+  minAgeMs: number;
+  /** Missed passes tolerated before a confirmed track "exits". */
+  maxMisses: number;
+}
+
+export const DEFAULT_TRACKER_OPTIONS: ObjectTrackerOptions = {
+  minIou: 0.2,
+  confirmHits: 2,
+  minAgeMs: 3000,
+  maxMisses: 3,
+};
+
+export const intersectionOverUnion = (a: FrameRegion, b: FrameRegion): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+/**
+ * Greedy IoU tracker: each detector pass is matched against the live
+ * tracks of the same label, best overlap first. Deterministic for a given
+ * sequence of detections, and cheap enough to run on every pass.
+ */
+export const createObjectTracker = (options: ObjectTrackerOptions = DEFAULT_TRACKER_OPTIONS) => {
+  let tracks: TrackedObject[] = [];
+  let nextId = 1;
+
+  const visible = () => tracks.filter(track => track.confirmed);
+
+  return {
+    /** Feeds one detector pass; returns the confirmed objects and what entered or left. */
+    update: (detections: Detection[], now: number = Date.now()): { objects: TrackedObject[]; events: TrackEvent[] } => {
+      const pairs: { track: TrackedObject; detection: number; overlap: number }[] = [];
+      tracks.forEach(track => {
+        detections.forEach((detection, index) => {
+          if (detection.label !== track.label) return;
+          const overlap = intersectionOverUnion(track.box, detection.box);
+          if (overlap >= options.minIou) pairs.push({ track, detection: index, overlap });
+        });
+      });
+      pairs.sort((a, b) => b.overlap - a.overlap);
+
+      const matchedTracks = new Set<TrackedObject>();
+      const matchedDetections = new Set<number>();
+      const events: TrackEvent[] = [];
+      pairs.forEach(({ track, detection }) => {
+        if (matchedTracks.has(track) || matchedDetections.has(detection)) return;
+        matchedTracks.add(track);
+        matchedDetections.add(detection);
+        const { box, score } = detections[detection];
+        Object.assign(track, { box, score, hits: track.hits + 1, misses: 0, lastSeen: now });
+        if (!track.confirmed && track.hits >= options.confirmHits && now - track.firstSeen >= options.minAgeMs) {
+          track.confirmed = true;
+          events.push({ type: 'enter', object: { ...track }, at: now });
+        }
+      });
+
+      tracks = tracks.filter(track => {
+        if (matchedTracks.has(track)) return true;
+        track.misses += 1;
+        // Unconfirmed tracks get no grace period: they were likely noise.
+        if (!track.confirmed) return false;
+        if (track.misses <= options.maxMisses) return true;
+        events.push({ type: 'exit', object: { ...track }, at: now });
+        return false;
+      });
+
+      detections.forEach((detection, index) => {
+        if (matchedDetections.has(index)) return;
+        const track: TrackedObject = {
+          id: nextId++,
+          label: detection.label,
+          score: detection.score,
+          box: detection.box,
+          hits: 1,
+          misses: 0,
+          confirmed: options.confirmHits <= 1 && options.minAgeMs <= 0,
+          firstSeen: now,
+          lastSeen: now,
+        };
+        tracks.push(track);
+        if (track.confirmed) events.push({ type: 'enter', object: { ...track }, at: now });
+      });
+
+      return { objects: visible().map(track => ({ ...track })), events };
+    },
+    objects: (): TrackedObject[] => visible().map(track => ({ ...track })),
+    reset: () => {
+      tracks = [];
+      nextId = 1;
+    },
+  };
+};
+
+export type ObjectTracker = ReturnType<typeof createObjectTracker>;
+
+/** Coarse position of a box centre, e.g. "top-left" or "center". */
+export const describePosition = (box: FrameRegion): string => {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const column = cx < 1 / 3 ? "left" : cx > 2 / 3 ? "right" : "center";
+  const row = cy < 1 / 3 ? "top" : cy > 2 / 3 ? "bottom" : "middle";
+  if (row === "middle") return column;
+  return column === "center" ? row : `${row}-${column}`;
+};
+
+/** One prompt line per confirmed object, e.g. "person #3 at left (91%)". */
+export const describeObjects = (objects: TrackedObject[]): string[] =>
+  objects
+    .filter(object => object.misses === 0)
+    .map(object => `${object.label} #${object.id} at ${describePosition(object.box)} (${Math.round(object.score * 100)}%)`);
+
+/**
+ * Turns a tracker event into an observation, so local events flow through
+ * the same log, bridge and trigger paths as the vision model's.
+ */
+export const trackEventObservation = ({ type, object }: TrackEvent): SceneObservation => ({
+  kind: 'scene',
+  changed: true,
+  summary: type === 'enter'
+    ? `A ${object.label} (#${object.id}) came into view at ${describePosition(object.box)}.`
+    : `The ${object.label} (#${object.id}) left the view.`,
+  entities: [{ label: object.label }],
+  eventType: type,
+  confidence: object.score,
+});
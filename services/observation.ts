@@ -0,0 +1,84 @@
+import { Observation, ObservationError, ObservationEventType, ObservedEntity, SceneObservation } from "../types";
+import { VisionProviderError } from "./visionErrors";
+
+const EVENT_TYPES: ObservationEventType[] = ['enter', 'exit', 'pickup', 'put-down', 'lighting', 'other'];
+
+export const UNCHANGED_OBSERVATION: SceneObservation = {
+  kind: 'scene',
+  changed: false,
+  summary: "",
+  entities: [],
+  eventType: null,
+  confidence: 1,
+};
+
+const normalizeEventType = (value: unknown): ObservationEventType | null => {
+  if (typeof value !== 'string') return null;
+  const normalized = value.toLowerCase().replace(/[\s_]+/g, '-');
+  if (normalized === 'putdown') return 'put-down';
+  if (normalized === 'pick-up') return 'pickup';
+  return (EVENT_TYPES as string[]).includes(normalized) ? normalized as ObservationEventType : 'other';
+};
+
+const normalizeEntities = (value: unknown): ObservedEntity[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(item => typeof item === 'string' ? item : item?.label)
+    .filter((label): label is string => typeof label === 'string' && label.trim().length > 0)
+    .map(label => ({ label: label.trim() }));
+};
+
+const clampConfidence = (value: unknown): number => {
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0.5;
+};
+
+/**
+ * Turns raw model output into a typed observation.
+ * Accepts the JSON schema from the system prompt (optionally wrapped in a
+ * markdown fence) and falls back to the legacy free-text protocol
+ * ("NO_CHANGE" or a plain sentence) for models that ignore JSON mode.
+ */
+export const parseObservation = (text: string): Observation => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+  if (trimmed.length === 0 || trimmed === "NO_CHANGE") return UNCHANGED_OBSERVATION;
+
+  if (trimmed.startsWith("{")) {
+    let data: any;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      return { kind: 'error', code: 'invalid_response', message: `Unparseable model output: ${trimmed.slice(0, 80)}` };
+    }
+    const summary = typeof data.summary === 'string' ? data.summary.trim() : "";
+    const changed = Boolean(data.changed) && summary.length > 0;
+    if (!changed) return UNCHANGED_OBSERVATION;
+    return {
+      kind: 'scene',
+      changed,
+      summary,
+      entities: normalizeEntities(data.entities),
+      eventType: normalizeEventType(data.eventType),
+      confidence: clampConfidence(data.confidence),
+    };
+  }
+
+  if (trimmed.includes("NO_CHANGE")) return UNCHANGED_OBSERVATION;
+
+  return {
+    kind: 'scene',
+    changed: true,
+    summary: trimmed,
+    entities: [],
+    eventType: null,
+    confidence: 0.5,
+  };
+};
+
+export const toObservationError = (error: any): ObservationError => {
+  if (error instanceof VisionProviderError) {
+    return { kind: 'error', code: error.code, message: error.message, status: error.status };
+  }
+  return { kind: 'error', code: 'unknown', message: error?.message || "Unknown observer malfunction" };
+};
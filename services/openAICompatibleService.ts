@@ -0,0 +1,67 @@
+import { VisionProvider, VisionRequest, VisionResponse } from "../types";
+import { buildPromptSegments } from "./visionPrompt";
+import { VisionProviderError } from "./visionErrors";
+
+interface OpenAICompatibleProviderOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Vision adapter for any server speaking the OpenAI chat completions API
+ * (OpenAI itself, vLLM, llama.cpp server, Ollama, LM Studio, ...).
+ * `baseUrl` is the API root, e.g. http://localhost:11434/v1
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleProviderOptions): VisionProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    id: 'openai-compatible',
+    label: `${model} @ ${baseUrl}`,
+    describeDiff: async (request: VisionRequest): Promise<VisionResponse> => {
+      const content = buildPromptSegments(request).map(segment =>
+        segment.type === 'text'
+          ? { type: 'text', text: segment.text }
+          : { type: 'image_url', image_url: { url: `data:${segment.mimeType};base64,${segment.data}` } }
+      );
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model,
+            messages: [
+              { role: 'system', content: request.systemInstruction },
+              { role: 'user', content }
+            ],
+            temperature: request.temperature,
+            max_tokens: request.maxOutputTokens,
+            response_format: { type: 'json_object' },
+          }),
+        });
+      } catch (error: any) {
+        throw new VisionProviderError(`Cannot reach ${endpoint}: ${error.message || error}`, undefined, 'network');
+      }
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new VisionProviderError(detail || response.statusText || "Request failed", response.status);
+      }
+
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      const usage = data?.usage;
+      return {
+        text: typeof text === 'string' ? text.trim() : "",
+        // Local servers often omit usage; treat it as unknown rather than zero.
+        usage: usage ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 } : undefined,
+      };
+    }
+  };
+};
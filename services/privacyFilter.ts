@@ -0,0 +1,172 @@
+import { FrameRegion, RegionOfInterest } from "../types";
+
+export type RedactionStyle = 'blur' | 'black';
+
+export interface PrivacySettings {
+  enabled: boolean;
+  /** Detect and redact faces with the browser's FaceDetector API. */
+  detectFaces: boolean;
+  style: RedactionStyle;
+  /**
+   * When face detection is requested but no detector is available (or it
+   * fails), hold the frame back instead of uploading it unredacted.
+   */
+  failClosed: boolean;
+}
+
+export interface RedactionResult {
+  /** Data URL of the redacted frame, or null if it must not be uploaded. */
+  image: string | null;
+  faces: number;
+  zones: number;
+  /** Why the frame was held back, when `image` is null. */
+  blockedReason?: string;
+}
+
+// Minimal typing for the Shape Detection API (Chromium, behind a flag elsewhere).
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+interface FaceDetectorLike {
+  detect: (image: ImageBitmapSource) => Promise<DetectedFace[]>;
+}
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+const getFaceDetectorConstructor = (): FaceDetectorConstructor | null =>
+  (globalThis as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector ?? null;
+
+export const isFaceDetectionSupported = (): boolean => getFaceDetectorConstructor() !== null;
+
+/**
+ * Face redaction defaults to on only where the browser has a detector.
+ * Elsewhere it would hold back every frame (fail closed) as soon as the
+ * filter is enabled; PrivacyPanel explains what is and is not redacted.
+ */
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  enabled: false,
+  detectFaces: isFaceDetectionSupported(),
+  style: 'blur',
+  failClosed: true,
+};
+
+// Face boxes hug the features; grow them so hair, ears and chin are covered too.
+const FACE_MARGIN = 0.25;
+// Pixelation factor for the blur style: the region is downsampled this much.
+const BLUR_DOWNSAMPLE = 16;
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode frame"));
+    img.src = dataUrl;
+  });
+
+/**
+ * Blurs (by heavy down/up-sampling, which works in every browser unlike
+ * ctx.filter) or blacks out one pixel rectangle of the canvas.
+ */
+const redactRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, style: RedactionStyle) => {
+  if (w <= 0 || h <= 0) return;
+  if (style === 'black') {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(x, y, w, h);
+    return;
+  }
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.round(w / BLUR_DOWNSAMPLE));
+  small.height = Math.max(1, Math.round(h / BLUR_DOWNSAMPLE));
+  const smallCtx = small.getContext('2d');
+  if (!smallCtx) {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(x, y, w, h);
+    return;
+  }
+  smallCtx.drawImage(ctx.canvas, x, y, w, h, 0, 0, small.width, small.height);
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(small, 0, 0, small.width, small.height, x, y, w, h);
+  ctx.restore();
+};
+
+/**
+ * On-device privacy stage that runs between capture and upload. Faces are
+ * found with the browser FaceDetector when it exists; private zones are
+ * user-drawn. Nothing here touches the network.
+ */
+export const createPrivacyFilter = () => {
+  let detector: FaceDetectorLike | null = null;
+
+  const getDetector = (): FaceDetectorLike | null => {
+    if (detector) return detector;
+    const FaceDetector = getFaceDetectorConstructor();
+    if (!FaceDetector) return null;
+    detector = new FaceDetector({ fastMode: true, maxDetectedFaces: 10 });
+    return detector;
+  };
+
+  return {
+    /**
+     * Redacts `dataUrl`. `zones` are private regions in the image's own
+     * coordinate space (already shifted for crops). The result is
+     * re-encoded in the input's format at `quality`. Never throws: any
+     * failure holds the frame back.
+     */
+    redact: async (dataUrl: string, zones: FrameRegion[], settings: PrivacySettings, quality = 0.85): Promise<RedactionResult> => {
+      if (!settings.enabled) return { image: dataUrl, faces: 0, zones: 0 };
+
+      let img: HTMLImageElement;
+      try {
+        img = await loadImage(dataUrl);
+      } catch (error) {
+        return { image: null, faces: 0, zones: 0, blockedReason: (error as Error).message };
+      }
+      // Per call: the loop and agent tools may redact concurrently.
+      const canvas = document.createElement('canvas');
+      const width = img.naturalWidth;
+      const height = img.naturalHeight;
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return { image: null, faces: 0, zones: 0, blockedReason: "Canvas unavailable" };
+      ctx.drawImage(img, 0, 0);
+
+      let faceBoxes: FrameRegion[] = [];
+      if (settings.detectFaces) {
+        const faceDetector = getDetector();
+        if (!faceDetector) {
+          if (settings.failClosed) return { image: null, faces: 0, zones: 0, blockedReason: "Face detection is not supported in this browser" };
+        } else {
+          try {
+            const faces = await faceDetector.detect(canvas);
+            faceBoxes = faces.map(({ boundingBox: box }) => ({
+              x: (box.x - box.width * FACE_MARGIN) / width,
+              y: (box.y - box.height * FACE_MARGIN) / height,
+              width: (box.width * (1 + 2 * FACE_MARGIN)) / width,
+              height: (box.height * (1 + 2 * FACE_MARGIN)) / height,
+            }));
+          } catch (error) {
+            if (settings.failClosed) return { image: null, faces: 0, zones: 0, blockedReason: `Face detection failed: ${(error as Error).message}` };
+          }
+        }
+      }
+
+      const visibleZones = zones.filter(zone => zone.x < 1 && zone.y < 1 && zone.x + zone.width > 0 && zone.y + zone.height > 0);
+      [...visibleZones, ...faceBoxes].forEach(rect => {
+        const x = Math.max(0, Math.floor(rect.x * width));
+        const y = Math.max(0, Math.floor(rect.y * height));
+        const right = Math.min(width, Math.ceil((rect.x + rect.width) * width));
+        const bottom = Math.min(height, Math.ceil((rect.y + rect.height) * height));
+        redactRect(ctx, x, y, right - x, bottom - y, settings.style);
+      });
+
+      const mimeType = dataUrl.match(/^data:(image\/[\w+.-]+);/)?.[1] ?? 'image/jpeg';
+      return { image: canvas.toDataURL(mimeType, quality), faces: faceBoxes.length, zones: visibleZones.length };
+    },
+  };
+};
+
+export type PrivacyFilter = ReturnType<typeof createPrivacyFilter>;
+
+export const privateZones = (regions: RegionOfInterest[]): FrameRegion[] =>
+  regions.filter(region => region.kind === 'private').map(region => region.rect);
@@ -0,0 +1,96 @@
+import { VisionProvider, VisionRequest, VisionResponse } from "../types";
+import { buildPromptSegments } from "./visionPrompt";
+import { VisionProviderError } from "./visionErrors";
+
+interface ProxyProviderOptions {
+  baseUrl: string;
+  model?: string;
+}
+
+const trimBase = (baseUrl: string) => baseUrl.replace(/\/+$/, "");
+
+/**
+ * Vision adapter that sends the prepared prompt to the bundled proxy
+ * server (server/index.js), which holds the Gemini key.
+ */
+export const createProxyProvider = ({ baseUrl, model }: ProxyProviderOptions): VisionProvider => {
+  const endpoint = `${trimBase(baseUrl)}/analyze`;
+
+  return {
+    id: 'proxy',
+    label: `Proxy (${trimBase(baseUrl)})`,
+    describeDiff: async (request: VisionRequest): Promise<VisionResponse> => {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          // Sends the proxy's session cookie (see `openProxySession`).
+          credentials: 'include',
+          body: JSON.stringify({
+            model,
+            systemInstruction: request.systemInstruction,
+            segments: buildPromptSegments(request),
+            temperature: request.temperature,
+            maxOutputTokens: request.maxOutputTokens,
+          }),
+        });
+      } catch (error: any) {
+        throw new VisionProviderError(`Cannot reach proxy at ${endpoint}: ${error.message || error}`, undefined, 'network');
+      }
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new VisionProviderError(data?.error || response.statusText || "Proxy request failed", response.status);
+      }
+      return { text: typeof data.text === 'string' ? data.text.trim() : "", usage: data.usage };
+    }
+  };
+};
+
+/**
+ * Asks the proxy for a signed ElevenLabs conversation URL. When `agentId`
+ * is empty the proxy falls back to its own AGENT_ID.
+ */
+export const fetchSignedConversationUrl = async (baseUrl: string, agentId: string): Promise<string> => {
+  const query = agentId ? `?agent_id=${encodeURIComponent(agentId)}` : "";
+  const response = await fetch(`${trimBase(baseUrl)}/signed-url${query}`, { credentials: 'include' });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.signedUrl) {
+    throw new Error(data?.error || `Signed URL request failed (${response.status})`);
+  }
+  return data.signedUrl;
+};
+
+export interface ProxySession {
+  /** Whether the proxy asks for an access code at all. */
+  required: boolean;
+  /** Whether this browser may use the proxy right now. */
+  active: boolean;
+  /** Epoch ms when the session cookie expires, if there is one. */
+  expiresAt: number | null;
+}
+
+/** Reports whether this browser holds a valid proxy session. */
+export const fetchProxySession = async (baseUrl: string): Promise<ProxySession> => {
+  const response = await fetch(`${trimBase(baseUrl)}/session`, { credentials: 'include' });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data?.error || `Session check failed (${response.status})`);
+  return { required: Boolean(data.required), active: Boolean(data.active), expiresAt: data.expiresAt ?? null };
+};
+
+/**
+ * Signs in to a proxy started with PROXY_TOKEN. The proxy answers with an
+ * HttpOnly session cookie, so the access code itself is never stored.
+ */
+export const openProxySession = async (baseUrl: string, token: string): Promise<number> => {
+  const response = await fetch(`${trimBase(baseUrl)}/session`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ token }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data?.error || `Sign-in failed (${response.status})`);
+  return data.expiresAt;
+};
@@ -0,0 +1,139 @@
+import { FrameRegion, LabeledImage, RegionOfInterest } from "../types";
+
+export const REGION_KIND_LABELS: Record<RegionOfInterest['kind'], string> = {
+  include: "Area",
+  exclude: "Mask",
+  private: "Private",
+};
+
+/** An include-region crop, with the frame rectangle it was cut from. */
+export interface RegionCrop extends LabeledImage {
+  rect: FrameRegion;
+}
+
+export interface RegionSettings {
+  regions: RegionOfInterest[];
+  /** Also send every include region as a separate, labeled higher-detail crop. */
+  sendCrops: boolean;
+}
+
+export const DEFAULT_REGION_SETTINGS: RegionSettings = {
+  regions: [],
+  sendCrops: false,
+};
+
+// Longest edge of a region crop sent to the vision model.
+const MAX_CROP_EDGE = 512;
+// Regions smaller than this (fraction of either side) are treated as accidental clicks.
+const MIN_REGION_SIZE = 0.02;
+
+/**
+ * Builds the normalized rectangle spanned by two drag points (any order).
+ * Returns null for degenerate drags.
+ */
+export const rectFromPoints = (ax: number, ay: number, bx: number, by: number): FrameRegion | null => {
+  const clamp = (n: number) => Math.min(1, Math.max(0, n));
+  const x = clamp(Math.min(ax, bx));
+  const y = clamp(Math.min(ay, by));
+  const width = clamp(Math.max(ax, bx)) - x;
+  const height = clamp(Math.max(ay, by)) - y;
+  return width >= MIN_REGION_SIZE && height >= MIN_REGION_SIZE ? { x, y, width, height } : null;
+};
+
+export const createRegion = (kind: RegionOfInterest['kind'], rect: FrameRegion, existing: RegionOfInterest[]): RegionOfInterest => {
+  const sameKind = existing.filter(region => region.kind === kind).length;
+  return {
+    id: crypto.randomUUID(),
+    label: `${REGION_KIND_LABELS[kind]} ${sameKind + 1}`,
+    kind,
+    rect,
+  };
+};
+
+/**
+ * Blacks out every exclusion region on a canvas that holds a full frame.
+ */
+export const paintExclusions = (ctx: CanvasRenderingContext2D, width: number, height: number, regions: RegionOfInterest[]) => {
+  const exclusions = regions.filter(region => region.kind === 'exclude');
+  if (exclusions.length === 0) return;
+  ctx.fillStyle = '#000';
+  exclusions.forEach(({ rect }) => {
+    ctx.fillRect(Math.floor(rect.x * width), Math.floor(rect.y * height), Math.ceil(rect.width * width), Math.ceil(rect.height * height));
+  });
+};
+
+const overlaps = (rect: FrameRegion, cx: number, cy: number, cw: number, ch: number) =>
+  rect.x < cx + cw && rect.x + rect.width > cx && rect.y < cy + ch && rect.y + rect.height > cy;
+
+/**
+ * Per-cell mask for a cols x rows signature grid: 1 where the cell counts
+ * for change detection. Cells are counted when they touch an include
+ * region (or there are none) and do not lie fully inside an exclusion.
+ * Null means "every cell counts".
+ */
+export const buildCellMask = (regions: RegionOfInterest[], cols: number, rows: number): Uint8Array | null => {
+  if (regions.length === 0) return null;
+  const includes = regions.filter(region => region.kind === 'include').map(region => region.rect);
+  const excludes = regions.filter(region => region.kind === 'exclude').map(region => region.rect);
+  const mask = new Uint8Array(cols * rows);
+  const cw = 1 / cols;
+  const ch = 1 / rows;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const cx = col * cw;
+      const cy = row * ch;
+      const included = includes.length === 0 || includes.some(rect => overlaps(rect, cx, cy, cw, ch));
+      const excluded = excludes.some(rect =>
+        rect.x <= cx && rect.y <= cy && rect.x + rect.width >= cx + cw && rect.y + rect.height >= cy + ch);
+      mask[row * cols + col] = included && !excluded ? 1 : 0;
+    }
+  }
+  return mask;
+};
+
+/**
+ * Re-expresses full-frame regions in the coordinate space of a crop.
+ */
+export const shiftIntoCrop = (regions: RegionOfInterest[], crop: FrameRegion): RegionOfInterest[] =>
+  regions.map(region => ({
+    ...region,
+    rect: {
+      x: (region.rect.x - crop.x) / crop.width,
+      y: (region.rect.y - crop.y) / crop.height,
+      width: region.rect.width / crop.width,
+      height: region.rect.height / crop.height,
+    },
+  }));
+
+/**
+ * Cuts every include region out of the full-resolution source, with
+ * exclusions already blacked out, as labeled crops in the capture format.
+ */
+export const captureRegionCrops = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  regions: RegionOfInterest[],
+  canvas: HTMLCanvasElement,
+  quality: number = 0.85,
+  mimeType: string = 'image/jpeg'
+): RegionCrop[] => {
+  const includes = regions.filter(region => region.kind === 'include');
+  const ctx = canvas.getContext('2d');
+  if (!ctx || includes.length === 0) return [];
+
+  return includes.map(({ label, rect }) => {
+    const sx = rect.x * sourceWidth;
+    const sy = rect.y * sourceHeight;
+    const sw = rect.width * sourceWidth;
+    const sh = rect.height * sourceHeight;
+    const scale = Math.min(1, MAX_CROP_EDGE / Math.max(sw, sh));
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+
+    ctx.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    paintExclusions(ctx, canvas.width, canvas.height, shiftIntoCrop(regions, rect));
+    return { label, image: canvas.toDataURL(mimeType, quality), rect };
+  });
+};
@@ -0,0 +1,39 @@
+import { RecordedEvent } from "../types";
+import { computeFrameSignature, FrameSignature } from "./changeDetector";
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Recorded frame could not be decoded."));
+    image.src = src;
+  });
+
+/**
+ * Feeds the frames of a recorded session back into the vision loop in
+ * their original order. Exposes the same getSnapshot/getSignature pair as
+ * LiveFeedHandle so the loop does not care where frames come from.
+ * Call `advance()` once per cycle to move to the next frame.
+ */
+export const createReplaySource = async (events: RecordedEvent[]) => {
+  const frames = events.flatMap(event => event.kind === 'frame' ? [event.image] : []);
+  const images = await Promise.all(frames.map(loadImage));
+  const signatureCanvas = document.createElement('canvas');
+  let cursor = -1;
+
+  return {
+    total: frames.length,
+    position: () => cursor + 1,
+    /** Moves to the next recorded frame. Returns false once the recording is exhausted. */
+    advance: (): boolean => {
+      if (cursor + 1 >= frames.length) return false;
+      cursor++;
+      return true;
+    },
+    getSnapshot: (): string | null => cursor >= 0 ? frames[cursor] : null,
+    getSignature: (): FrameSignature | null =>
+      cursor >= 0 ? computeFrameSignature(images[cursor], signatureCanvas) : null,
+  };
+};
+
+export type ReplaySource = Awaited<ReturnType<typeof createReplaySource>>;
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createSceneMemory, digestEntries } from './sceneMemory';
+import { sceneObservation } from './testFixtures';
+
+describe('digestEntries', () => {
+  it('names events with their entities, then what else was seen and the last description', () => {
+    expect(digestEntries([
+      { timestamp: 0, summary: "A person walks in.", eventType: 'enter', entities: ["person"] },
+      { timestamp: 60_000, summary: "A laptop sits on the desk.", eventType: null, entities: ["laptop", "Person"] },
+      { timestamp: 120_000, summary: "He picks up a mug.", eventType: 'pickup', entities: ["mug"] },
+    ])).toBe("3 observations over 2m: person entered; mug picked up. Also seen: laptop. Ended with: He picks up a mug.");
+  });
+});
+
+describe('createSceneMemory', () => {
+  it('rolls overflowing entries into a bounded number of digests', () => {
+    const memory = createSceneMemory({ maxEntries: 2, compactBatch: 1, summaryHistory: 2, entityTtl: 100 });
+    ["one", "two", "three", "four", "five"].forEach((summary, i) => memory.record(sceneObservation(summary), i * 1000));
+
+    const state = memory.getState();
+    expect(state.recent.map(entry => entry.summary)).toEqual(["four", "five"]);
+    expect(state.summary).toBe("Earlier: 1 observation over 0s: no enter/exit or pickup events. Ended with: two "
+      + "Then 1 observation over 0s: no enter/exit or pickup events. Ended with: three");
+  });
+
+  it('drops entities on exit or once they go unmentioned for entityTtl observations', () => {
+    const memory = createSceneMemory({ maxEntries: 8, compactBatch: 4, summaryHistory: 4, entityTtl: 2 });
+    memory.record(sceneObservation("A cat and a dog.", { entities: ["cat", "dog"] }));
+    memory.record(sceneObservation("The dog leaves.", { entities: ["dog"], eventType: 'exit' }));
+    expect(memory.getState().presentEntities).toEqual(["cat"]);
+
+    memory.record(sceneObservation("A lamp turns on.", { entities: ["lamp"], eventType: 'lighting' }));
+    expect(memory.getState().presentEntities).toEqual(["lamp"]);
+  });
+
+  it('ignores unchanged observations', () => {
+    const memory = createSceneMemory();
+    memory.record(sceneObservation("Same as before.", { entities: ["cat"], changed: false }));
+    expect(memory.getState().recent).toEqual([]);
+  });
+});
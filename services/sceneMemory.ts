@@ -0,0 +1,162 @@
+import { ObservationEventType, SceneObservation } from "../types";
+
+export interface SceneMemoryEntry {
+  timestamp: number;
+  summary: string;
+  eventType: ObservationEventType | null;
+  entities: string[];
+}
+
+export interface SceneState {
+  /** Compacted description of everything older than the rolling log. */
+  summary: string;
+  /** Most recent observations, oldest first. */
+  recent: SceneMemoryEntry[];
+  /** Entities believed to be in view (added on mention, removed on exit or after going unmentioned). */
+  presentEntities: string[];
+  compactedAt: number | null;
+}
+
+export interface SceneMemoryOptions {
+  /** Size of the rolling log before older entries are compacted. */
+  maxEntries: number;
+  /** How many of the oldest entries are rolled up into one digest per compaction. */
+  compactBatch: number;
+  /** How many digests the summary keeps; older ones are dropped. */
+  summaryHistory: number;
+  /** Observations an entity may go unmentioned before it is no longer considered present. */
+  entityTtl: number;
+}
+
+export const DEFAULT_SCENE_MEMORY_OPTIONS: SceneMemoryOptions = {
+  maxEntries: 8,
+  compactBatch: 4,
+  summaryHistory: 4,
+  entityTtl: 6,
+};
+
+export const EMPTY_SCENE_STATE: SceneState = { summary: "", recent: [], presentEntities: [], compactedAt: null };
+
+const EVENT_PHRASES: Partial<Record<ObservationEventType, string>> = {
+  enter: "entered",
+  exit: "left",
+  pickup: "picked up",
+  'put-down': "put down",
+};
+
+const formatSpan = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+};
+
+/**
+ * Rolls a batch of observations up into one line: what happened (events
+ * with their entities), what else was seen, and the last description.
+ * "4 observations over 2m: person entered; mug picked up. Also seen: laptop. Ended with: He sets the mug down."
+ */
+export const digestEntries = (batch: SceneMemoryEntry[]): string => {
+  if (batch.length === 0) return "";
+  const events: string[] = [];
+  const involved = new Set<string>();
+  batch.forEach(entry => {
+    if (entry.eventType === 'lighting') {
+      events.push("lighting changed");
+    } else if (entry.eventType && EVENT_PHRASES[entry.eventType]) {
+      const subject = entry.entities.length > 0 ? entry.entities.join(" and ") : "something";
+      events.push(`${subject} ${EVENT_PHRASES[entry.eventType]}`);
+      entry.entities.forEach(label => involved.add(label.toLowerCase()));
+    }
+  });
+  const seen = new Map<string, string>();
+  batch.forEach(entry => entry.entities.forEach(label => {
+    if (!involved.has(label.toLowerCase())) seen.set(label.toLowerCase(), label);
+  }));
+
+  const span = formatSpan(batch[batch.length - 1].timestamp - batch[0].timestamp);
+  const parts = [`${batch.length} observation${batch.length === 1 ? "" : "s"} over ${span}:`];
+  parts.push(events.length > 0 ? `${events.join("; ")}.` : "no enter/exit or pickup events.");
+  if (seen.size > 0) parts.push(`Also seen: ${Array.from(seen.values()).join(", ")}.`);
+  parts.push(`Ended with: ${batch[batch.length - 1].summary}`);
+  return parts.join(" ");
+};
+
+/**
+ * Rolling scene memory for the vision loop. Keeps a bounded log of recent
+ * observations and, whenever the log overflows, rolls the oldest entries
+ * up into a digest (see `digestEntries`) for the scene summary. Both are handed to the
+ * model so references like "he put the mug back" survive many cycles.
+ */
+export const createSceneMemory = (options: SceneMemoryOptions = DEFAULT_SCENE_MEMORY_OPTIONS) => {
+  let recent: SceneMemoryEntry[] = [];
+  let digests: string[] = [];
+  // label (lowercase) -> display label and the observation it was last mentioned in, in order of first appearance
+  let present = new Map<string, { label: string; lastSeen: number }>();
+  let observations = 0;
+  let compactedAt: number | null = null;
+
+  const presentLabels = () => Array.from(present.values(), entry => entry.label);
+
+  const buildSummary = (): string => {
+    const parts: string[] = [];
+    if (present.size > 0) parts.push(`Present in scene: ${presentLabels().join(", ")}.`);
+    if (digests.length > 0) parts.push(`Earlier: ${digests.join(" Then ")}`);
+    return parts.join(" ");
+  };
+
+  const compact = () => {
+    const batch = recent.slice(0, options.compactBatch);
+    recent = recent.slice(options.compactBatch);
+    digests = [...digests, digestEntries(batch)].slice(-options.summaryHistory);
+    compactedAt = Date.now();
+  };
+
+  return {
+    record: (observation: SceneObservation, timestamp: number = Date.now()) => {
+      if (!observation.changed) return;
+      const entities = observation.entities.map(entity => entity.label);
+      observations += 1;
+
+      entities.forEach(label => {
+        const key = label.toLowerCase();
+        if (observation.eventType === 'exit') {
+          present.delete(key);
+        } else {
+          present.set(key, { label: present.get(key)?.label ?? label, lastSeen: observations });
+        }
+      });
+      // Models rarely report an exit for things that were just put away; unmentioned entities fade out.
+      present.forEach((entry, key) => {
+        if (observations - entry.lastSeen >= options.entityTtl) present.delete(key);
+      });
+
+      recent = [...recent, { timestamp, summary: observation.summary, eventType: observation.eventType, entities }];
+      if (recent.length > options.maxEntries) compact();
+    },
+    getState: (): SceneState => ({
+      summary: buildSummary(),
+      recent,
+      presentEntities: presentLabels(),
+      compactedAt,
+    }),
+    reset: () => {
+      recent = [];
+      digests = [];
+      present = new Map();
+      observations = 0;
+      compactedAt = null;
+    },
+  };
+};
+
+export type SceneMemory = ReturnType<typeof createSceneMemory>;
+
+const formatAge = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s ago` : `${Math.round(seconds / 60)}m ago`;
+};
+
+/**
+ * Renders the rolling log as prompt lines ("[12s ago] He picks up a mug.").
+ */
+export const formatRecentObservations = (entries: SceneMemoryEntry[], now: number = Date.now()): string[] =>
+  entries.map(entry => `[${formatAge(now - entry.timestamp)}] ${entry.summary}`);
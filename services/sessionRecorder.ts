@@ -0,0 +1,158 @@
+import { Observation, RecordedEvent, RecordedSession, VisionProviderId } from "../types";
+
+const DB_NAME = 'visual-cortex-recordings';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const EVENTS_STORE = 'events';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        const events = db.createObjectStore(EVENTS_STORE, { keyPath: ['sessionId', 'seq'] });
+        events.createIndex('sessionId', 'sessionId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const listSessions = async (): Promise<RecordedSession[]> => {
+  const db = await openDatabase();
+  const sessions = await promisify(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll());
+  return (sessions as RecordedSession[]).sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const loadSessionEvents = async (sessionId: string): Promise<RecordedEvent[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index('sessionId');
+  const events = await promisify(index.getAll(IDBKeyRange.only(sessionId)));
+  return (events as RecordedEvent[]).sort((a, b) => a.seq - b.seq);
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, EVENTS_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(sessionId);
+  const events = tx.objectStore(EVENTS_STORE);
+  const keys = await promisify(events.index('sessionId').getAllKeys(IDBKeyRange.only(sessionId)));
+  keys.forEach(key => events.delete(key));
+  await transactionDone(tx);
+};
+
+/**
+ * Serializes a session as JSONL: one header line with the session record,
+ * followed by one line per event in recording order.
+ */
+export const exportSessionJsonl = async (session: RecordedSession): Promise<Blob> => {
+  const events = await loadSessionEvents(session.id);
+  const lines = [JSON.stringify({ kind: 'session', ...session }), ...events.map(event => JSON.stringify(event))];
+  return new Blob([lines.join('\n') + '\n'], { type: 'application/x-ndjson' });
+};
+
+/**
+ * Appends frames, analysis results and bridge payloads of the running
+ * session to IndexedDB. Writes are queued and never block the vision loop;
+ * storage failures are reported once through `onError`.
+ */
+export const createSessionRecorder = (onError: (error: Error) => void) => {
+  let session: RecordedSession | null = null;
+  let seq = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const enqueue = (work: (db: IDBDatabase) => Promise<void>) => {
+    queue = queue
+      .then(() => openDatabase())
+      .then(work)
+      .catch((error: Error) => {
+        console.error("Recorder failure:", error);
+        onError(error);
+        session = null;
+      });
+  };
+
+  const putEvent = (event: RecordedEvent) => {
+    enqueue(async db => {
+      const tx = db.transaction(EVENTS_STORE, 'readwrite');
+      tx.objectStore(EVENTS_STORE).put(event);
+      await transactionDone(tx);
+    });
+  };
+
+  const putSession = (snapshot: RecordedSession) => {
+    enqueue(async db => {
+      const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+      tx.objectStore(SESSIONS_STORE).put(snapshot);
+      await transactionDone(tx);
+    });
+  };
+
+  return {
+    isRecording: () => session !== null,
+    start: (label: string): RecordedSession => {
+      seq = 0;
+      session = { id: crypto.randomUUID(), label, startedAt: Date.now(), endedAt: null, frameCount: 0 };
+      putSession({ ...session });
+      return session;
+    },
+    stop: (): Promise<void> => {
+      if (session) {
+        session.endedAt = Date.now();
+        putSession({ ...session });
+        session = null;
+      }
+      return queue;
+    },
+    /** Stores a snapshot and returns the id later events use to reference it. */
+    recordFrame: (image: string): string | null => {
+      if (!session) return null;
+      const frameId = crypto.randomUUID();
+      session.frameCount++;
+      putEvent({ sessionId: session.id, seq: seq++, timestamp: Date.now(), kind: 'frame', frameId, image });
+      putSession({ ...session });
+      return frameId;
+    },
+    recordAnalysis: (entry: {
+      frameId: string;
+      previousFrameId: string | null;
+      lastDescription: string | null;
+      providerId: VisionProviderId;
+      profileId: string;
+      probe: boolean;
+      observation: Observation;
+      latencyMs: number;
+    }) => {
+      if (!session) return;
+      putEvent({ sessionId: session.id, seq: seq++, timestamp: Date.now(), kind: 'analysis', ...entry });
+    },
+    recordBridge: (payload: string, ok: boolean) => {
+      if (!session) return;
+      putEvent({ sessionId: session.id, seq: seq++, timestamp: Date.now(), kind: 'bridge', payload, ok });
+    },
+  };
+};
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>;
@@ -0,0 +1,20 @@
+import { SceneObservation } from "../types";
+
+type SceneObservationPatch = Partial<Omit<SceneObservation, 'kind' | 'entities'>> & {
+  /** Entity labels, wrapped into `ObservedEntity` objects. */
+  entities?: string[];
+};
+
+/**
+ * A changed, confident scene observation for tests; override any field
+ * through `patch`.
+ */
+export const sceneObservation = (summary: string, { entities = [], ...patch }: SceneObservationPatch = {}): SceneObservation => ({
+  kind: 'scene',
+  changed: true,
+  summary,
+  entities: entities.map(label => ({ label })),
+  eventType: null,
+  confidence: 0.9,
+  ...patch,
+});
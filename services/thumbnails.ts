@@ -0,0 +1,23 @@
+/** Wide enough to audit a description against, small enough to keep thousands. */
+export const THUMBNAIL_WIDTH = 320;
+
+/**
+ * Downscales a data-URL frame to a JPEG thumbnail. Frames that are
+ * already small are returned as they are.
+ */
+export const createThumbnail = (dataUrl: string, width: number = THUMBNAIL_WIDTH, quality: number = 0.7): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      if (img.naturalWidth <= width) return resolve(dataUrl);
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = Math.round(width * img.naturalHeight / img.naturalWidth);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas unavailable"));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+    img.onerror = () => reject(new Error("Could not decode frame"));
+    img.src = dataUrl;
+  });
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { TimelineItem } from '../types';
+import { capEntries, exportTimeline, filterTimeline } from './timelineView';
+
+const at = new Date('2026-01-01T12:00:00Z');
+
+const items: TimelineItem[] = [
+  {
+    kind: 'log',
+    timestamp: at,
+    entry: {
+      id: '1',
+      timestamp: at,
+      type: 'visual',
+      message: "A cat walks in, \"quietly\".",
+      camera: "Kitchen cam",
+      observation: { kind: 'scene', changed: true, summary: "A cat walks in.", entities: [{ label: "cat" }], eventType: 'enter', confidence: 0.9 },
+    },
+  },
+  { kind: 'log', timestamp: at, entry: { id: '2', timestamp: at, type: 'info', message: "Vision Loop active." } },
+  { kind: 'transcript', timestamp: at, message: { id: '3', timestamp: at, role: 'agent', text: "Hello there.", context: [] } },
+];
+
+describe('capEntries', () => {
+  it('keeps the newest entries up to the cap, and everything when the cap is 0', () => {
+    expect(capEntries([1, 2, 3], 2)).toEqual([2, 3]);
+    expect(capEntries([1, 2, 3], 0)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('filterTimeline', () => {
+  it('hides categories and requires every search term', () => {
+    expect(filterTimeline(items, { hidden: ['info'], query: "" })).toHaveLength(2);
+    expect(filterTimeline(items, { hidden: [], query: "cat enter" }).map(item => item.kind)).toEqual(['log']);
+    expect(filterTimeline(items, { hidden: [], query: "kitchen" })).toHaveLength(1);
+    expect(filterTimeline(items, { hidden: ['visual'], query: "cat" })).toEqual([]);
+  });
+});
+
+describe('exportTimeline', () => {
+  it('writes CSV with escaped cells and the camera column', async () => {
+    const { blob, filename } = exportTimeline(items.slice(0, 1), 'csv', at);
+    const [header, row] = (await blob.text()).trim().split("\n");
+    expect(header).toBe("timestamp,kind,message,eventType,entities,confidence,tool,probe,local,camera,context");
+    expect(row).toBe(`2026-01-01T12:00:00.000Z,visual,"A cat walks in, ""quietly"".",enter,cat,0.9,,false,false,Kitchen cam,`);
+    expect(filename).toBe("logic-stream-2026-01-01T12-00-00-000Z.csv");
+  });
+
+  it('writes JSON records for logs and transcript messages', async () => {
+    const records = JSON.parse(await exportTimeline(items, 'json', at).blob.text());
+    expect(records.map((record: { kind: string }) => record.kind)).toEqual(['visual', 'info', 'agent']);
+    expect(records[0]).toMatchObject({ entities: ['cat'], camera: "Kitchen cam", local: false });
+  });
+});
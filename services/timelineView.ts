@@ -0,0 +1,139 @@
+import { LogEntry, TimelineItem } from "../types";
+
+/** Log types plus the conversation transcript, as toggled in the Terminal. */
+export type TimelineCategory = LogEntry['type'] | 'transcript';
+
+export const TIMELINE_CATEGORIES: TimelineCategory[] = ['visual', 'bridge', 'transcript', 'alert', 'error', 'success', 'info'];
+
+export const DEFAULT_TIMELINE_RETENTION = 2000;
+
+/** Drops the oldest entries beyond `cap`. */
+export const capEntries = <T>(entries: T[], cap: number): T[] =>
+  cap > 0 && entries.length > cap ? entries.slice(entries.length - cap) : entries;
+
+export const categoryOf = (item: TimelineItem): TimelineCategory =>
+  item.kind === 'log' ? item.entry.type : 'transcript';
+
+/**
+ * Everything a search should match for one item: the message, and for
+ * observations their entities and event type, so "cat" finds "#cat".
+ */
+export const searchableText = (item: TimelineItem): string => {
+  if (item.kind === 'transcript') {
+    return [item.message.role, item.message.text, ...item.message.context].join(" ");
+  }
+  const { entry } = item;
+  const observation = entry.observation;
+  return [
+    entry.message,
+    entry.tool ?? "",
+    entry.camera ?? "",
+    observation?.eventType ?? "",
+    ...(observation?.entities.map(entity => entity.label) ?? []),
+  ].join(" ");
+};
+
+export interface TimelineFilter {
+  hidden: TimelineCategory[];
+  query: string;
+}
+
+export const EMPTY_TIMELINE_FILTER: TimelineFilter = { hidden: [], query: "" };
+
+/**
+ * Applies category toggles and a case-insensitive search. Every
+ * whitespace-separated term must match, e.g. `cat exit`.
+ */
+export const filterTimeline = (items: TimelineItem[], { hidden, query }: TimelineFilter): TimelineItem[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (hidden.length === 0 && terms.length === 0) return items;
+  return items.filter(item => {
+    if (hidden.includes(categoryOf(item))) return false;
+    if (terms.length === 0) return true;
+    const text = searchableText(item).toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+};
+
+export type TimelineExportFormat = 'json' | 'csv' | 'md';
+
+const EXPORT_MIME_TYPES: Record<TimelineExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  md: 'text/markdown',
+};
+
+const toRecord = (item: TimelineItem) =>
+  item.kind === 'log'
+    ? {
+        timestamp: item.timestamp.toISOString(),
+        kind: item.entry.type,
+        message: item.entry.message,
+        eventType: item.entry.observation?.eventType ?? null,
+        entities: item.entry.observation?.entities.map(entity => entity.label) ?? [],
+        confidence: item.entry.observation?.confidence ?? null,
+        tool: item.entry.tool ?? null,
+        probe: item.entry.probe ?? false,
+        local: item.entry.local ?? false,
+        camera: item.entry.camera ?? null,
+      }
+    : {
+        timestamp: item.timestamp.toISOString(),
+        kind: item.message.role,
+        message: item.message.text,
+        context: item.message.context,
+      };
+
+const csvCell = (value: unknown): string => {
+  const text = Array.isArray(value) ? value.join("; ") : value == null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = ['timestamp', 'kind', 'message', 'eventType', 'entities', 'confidence', 'tool', 'probe', 'local', 'camera', 'context'] as const;
+
+const toMarkdownLine = (item: TimelineItem): string => {
+  const time = item.timestamp.toLocaleTimeString('en-US', { hour12: false });
+  if (item.kind === 'transcript') {
+    const context = item.message.context.map(payload => `\n  - ctx: ${payload}`).join("");
+    return `- \`${time}\` **${item.message.role.toUpperCase()}** ${item.message.text}${context}`;
+  }
+  const { entry } = item;
+  const tags = [
+    entry.observation?.eventType,
+    ...(entry.observation?.entities.map(entity => `#${entity.label}`) ?? []),
+    entry.tool,
+    entry.probe ? 'probe' : undefined,
+    entry.local ? 'local' : undefined,
+  ].filter(Boolean).join(" ");
+  const camera = entry.camera ? `[${entry.camera}] ` : "";
+  return `- \`${time}\` **${entry.type}** ${camera}${entry.message}${tags ? ` _(${tags})_` : ""}`;
+};
+
+/**
+ * Serializes timeline items for download. Frames are never included, so
+ * exports stay small and contain no imagery.
+ */
+export const exportTimeline = (items: TimelineItem[], format: TimelineExportFormat, now: Date = new Date()) => {
+  let content: string;
+  switch (format) {
+    case 'json':
+      content = JSON.stringify(items.map(toRecord), null, 2);
+      break;
+    case 'csv':
+      content = [
+        CSV_COLUMNS.join(","),
+        ...items.map(item => {
+          const record: Record<string, unknown> = toRecord(item);
+          return CSV_COLUMNS.map(column => csvCell(record[column])).join(",");
+        }),
+      ].join("\n");
+      break;
+    case 'md':
+      content = [`# Logic Stream export (${now.toLocaleString()})`, "", ...items.map(toMarkdownLine)].join("\n");
+      break;
+  }
+  return {
+    blob: new Blob([content + "\n"], { type: EXPORT_MIME_TYPES[format] }),
+    filename: `logic-stream-${now.toISOString().replace(/[:.]/g, '-')}.${format}`,
+  };
+};
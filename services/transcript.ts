@@ -0,0 +1,60 @@
+import { LogEntry, TimelineItem, TranscriptMessage, TranscriptRole } from "../types";
+
+/**
+ * Shape of useConversation's onMessage payload. Older SDK versions only
+ * send `source` ("user" | "ai"); newer ones add `role`.
+ */
+export interface ConversationMessagePayload {
+  message: string;
+  role?: TranscriptRole;
+  source?: 'user' | 'ai';
+}
+
+/**
+ * Turns raw onMessage payloads into TranscriptMessages and remembers which
+ * contextual updates were sent in between, so every agent reply carries
+ * the visual context it was given.
+ */
+export const createTranscriptTracker = () => {
+  let pendingContext: string[] = [];
+
+  return {
+    /** Call after a contextual update was successfully sent to the agent. */
+    noteContext: (payload: string) => {
+      pendingContext = [...pendingContext, payload];
+    },
+    toMessage: (payload: ConversationMessagePayload, timestamp: Date = new Date()): TranscriptMessage => {
+      const role: TranscriptRole = payload.role ?? (payload.source === 'ai' ? 'agent' : 'user');
+      const context = role === 'agent' ? pendingContext : [];
+      if (role === 'agent') pendingContext = [];
+      return { id: crypto.randomUUID(), timestamp, role, text: payload.message, context };
+    },
+    reset: () => {
+      pendingContext = [];
+    },
+  };
+};
+
+export type TranscriptTracker = ReturnType<typeof createTranscriptTracker>;
+
+/**
+ * Merges both sorted streams into one time-ordered timeline. On equal
+ * timestamps, logs come first (context is sent before the reply it informs).
+ */
+export const mergeTimeline = (logs: LogEntry[], transcript: TranscriptMessage[]): TimelineItem[] => {
+  const items: TimelineItem[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < logs.length || j < transcript.length) {
+    const log = logs[i];
+    const message = transcript[j];
+    if (message === undefined || (log !== undefined && log.timestamp.getTime() <= message.timestamp.getTime())) {
+      items.push({ kind: 'log', timestamp: log.timestamp, entry: log });
+      i++;
+    } else {
+      items.push({ kind: 'transcript', timestamp: message.timestamp, message });
+      j++;
+    }
+  }
+  return items;
+};
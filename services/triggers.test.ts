@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { TriggerRule } from '../types';
+import { sceneObservation } from './testFixtures';
+import { createTriggerEngine, matchesRule, renderTriggerPrompt } from './triggers';
+
+const observation = sceneObservation("A black cat jumps onto the catalog.", { entities: ["black cat", "catalog"], eventType: 'enter' });
+
+const rule = (patch: Partial<TriggerRule>): TriggerRule => ({
+  id: 'rule',
+  name: "Rule",
+  enabled: true,
+  matchKind: 'keyword',
+  values: [],
+  actions: ['alert'],
+  prompt: "Seen: {summary}",
+  cooldownMs: 1000,
+  ...patch,
+});
+
+describe('matchesRule', () => {
+  it('matches keywords, whole-word entities and event types', () => {
+    expect(matchesRule(rule({ matchKind: 'keyword', values: ['JUMPS'] }), observation)).toBe(true);
+    expect(matchesRule(rule({ matchKind: 'entity', values: ['cat'] }), observation)).toBe(true);
+    expect(matchesRule(rule({ matchKind: 'entity', values: ['cata'] }), observation)).toBe(false);
+    expect(matchesRule(rule({ matchKind: 'event', values: ['exit'] }), observation)).toBe(false);
+  });
+
+  it('never matches without values or on unchanged observations', () => {
+    expect(matchesRule(rule({ values: [' '] }), observation)).toBe(false);
+    expect(matchesRule(rule({ values: ['cat'] }), { ...observation, changed: false })).toBe(false);
+  });
+});
+
+describe('renderTriggerPrompt', () => {
+  it('fills in the summary', () => {
+    expect(renderTriggerPrompt(rule({}), observation)).toBe("Seen: A black cat jumps onto the catalog.");
+  });
+});
+
+describe('createTriggerEngine', () => {
+  const speakAndAlert = rule({ values: ['cat'], actions: ['speak', 'alert'] });
+
+  it('arms nothing by itself, so an undelivered prompt stays due', () => {
+    const engine = createTriggerEngine();
+    expect(engine.due([speakAndAlert], observation, 0)).toEqual([{ rule: speakAndAlert, local: true, speak: true }]);
+    engine.arm(speakAndAlert.id, 'local', 0);
+    expect(engine.due([speakAndAlert], observation, 500)).toEqual([{ rule: speakAndAlert, local: false, speak: true }]);
+  });
+
+  it('cools each channel down separately once armed', () => {
+    const engine = createTriggerEngine();
+    engine.arm(speakAndAlert.id, 'local', 0);
+    engine.arm(speakAndAlert.id, 'speak', 0);
+    expect(engine.due([speakAndAlert], observation, 999)).toEqual([]);
+    expect(engine.due([speakAndAlert], observation, 1000)).toHaveLength(1);
+  });
+
+  it('skips disabled rules', () => {
+    expect(createTriggerEngine().due([{ ...speakAndAlert, enabled: false }], observation, 0)).toEqual([]);
+  });
+});
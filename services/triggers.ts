@@ -0,0 +1,128 @@
+import { SceneObservation, TriggerRule } from "../types";
+
+export const DEFAULT_TRIGGER_RULES: TriggerRule[] = [
+  {
+    id: 'someone-enters',
+    name: "Someone walks in",
+    enabled: false,
+    matchKind: 'event',
+    values: ['enter'],
+    actions: ['speak', 'alert'],
+    prompt: "[Visual trigger] Someone just came into view: {summary} Greet them briefly.",
+    cooldownMs: 60000,
+  },
+  {
+    id: 'pet-activity',
+    name: "Pet activity",
+    enabled: false,
+    matchKind: 'entity',
+    values: ['cat', 'dog', 'pet'],
+    actions: ['chime', 'alert'],
+    prompt: "[Visual trigger] The pet is active: {summary} Mention it to me.",
+    cooldownMs: 120000,
+  },
+];
+
+export const createTriggerRule = (): TriggerRule => ({
+  id: `rule-${crypto.randomUUID().slice(0, 8)}`,
+  name: "New rule",
+  enabled: true,
+  matchKind: 'keyword',
+  values: [],
+  actions: ['alert'],
+  prompt: "[Visual trigger] {summary} Tell me about it.",
+  cooldownMs: 30000,
+});
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+export const matchesRule = (rule: TriggerRule, observation: SceneObservation): boolean => {
+  const values = rule.values.map(normalize).filter(Boolean);
+  if (!observation.changed || values.length === 0) return false;
+  switch (rule.matchKind) {
+    case 'keyword': {
+      const summary = observation.summary.toLowerCase();
+      return values.some(value => summary.includes(value));
+    }
+    case 'entity': {
+      // "cat" matches "black cat", but not "catalog".
+      const labels = observation.entities.map(entity => normalize(entity.label));
+      return values.some(value => labels.some(label => label === value || label.split(/\s+/).includes(value)));
+    }
+    case 'event':
+      return observation.eventType !== null && values.includes(observation.eventType);
+  }
+};
+
+export const renderTriggerPrompt = (rule: TriggerRule, observation: SceneObservation): string =>
+  rule.prompt.split("{summary}").join(observation.summary);
+
+/** A matching rule, and which of its actions are out of cooldown. */
+export interface DueTrigger {
+  rule: TriggerRule;
+  /** Chime and alert, which always run locally. */
+  local: boolean;
+  /** The prompt to the agent, which may have to wait for the voice link. */
+  speak: boolean;
+}
+
+export type TriggerChannel = 'local' | 'speak';
+
+/**
+ * Tracks per-rule cooldowns so a busy scene cannot make the agent
+ * speak up on every cycle. Local actions and the spoken prompt cool down
+ * separately, and only once they have actually run: a prompt that could
+ * not be delivered does not silence the rule.
+ */
+export const createTriggerEngine = () => {
+  const lastFired = new Map<string, number>();
+  const isCool = (rule: TriggerRule, channel: TriggerChannel, now: number) => {
+    const last = lastFired.get(`${rule.id}:${channel}`);
+    return last === undefined || now - last >= rule.cooldownMs;
+  };
+
+  return {
+    /** Returns the enabled rules that match, with the actions that are out of cooldown. Arms nothing. */
+    due: (rules: TriggerRule[], observation: SceneObservation, now: number = Date.now()): DueTrigger[] =>
+      rules
+        .filter(rule => rule.enabled && matchesRule(rule, observation))
+        .map(rule => ({
+          rule,
+          local: rule.actions.some(action => action !== 'speak') && isCool(rule, 'local', now),
+          speak: rule.actions.includes('speak') && isCool(rule, 'speak', now),
+        }))
+        .filter(trigger => trigger.local || trigger.speak),
+    /** Starts the cooldown of one channel of a rule, once its actions ran. */
+    arm: (ruleId: string, channel: TriggerChannel, now: number = Date.now()) => {
+      lastFired.set(`${ruleId}:${channel}`, now);
+    },
+    reset: () => lastFired.clear(),
+  };
+};
+
+export type TriggerEngine = ReturnType<typeof createTriggerEngine>;
+
+let audioContext: AudioContext | null = null;
+
+/** Short two-tone chime synthesized locally (no asset to ship). */
+export const playChime = () => {
+  try {
+    audioContext ??= new AudioContext();
+    const ctx = audioContext;
+    [880, 1320].forEach((frequency, i) => {
+      const start = ctx.currentTime + i * 0.15;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.2, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.4);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.45);
+    });
+  } catch (error) {
+    console.warn("Chime unavailable:", error);
+  }
+};
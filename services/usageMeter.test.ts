@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { budgetExceeded, createUsageMeter, DEFAULT_USAGE_SETTINGS, estimateCostUsd, noChangeRatio } from './usageMeter';
+
+describe('createUsageMeter', () => {
+  it('totals calls, outcomes, tokens and errors by key', () => {
+    const meter = createUsageMeter(0);
+    meter.recordCall({ latencyMs: 100, outcome: 'change', usage: { inputTokens: 1000, outputTokens: 50 } });
+    meter.recordCall({ latencyMs: 200, outcome: 'no_change', usage: { inputTokens: 1000, outputTokens: 10 } });
+    meter.recordCall({ latencyMs: 300, outcome: 'error', errorKey: 'HTTP 429' });
+    meter.recordBridge(true);
+    meter.recordBridge(false);
+
+    expect(meter.totals()).toMatchObject({
+      calls: 3, changes: 1, noChange: 1, errors: 1,
+      errorsByStatus: { 'HTTP 429': 1 },
+      inputTokens: 2000, outputTokens: 60, callsWithoutUsage: 1,
+      totalLatencyMs: 600, bridgeSent: 1, bridgeFailed: 1,
+    });
+    expect(noChangeRatio(meter.totals())).toBe(0.5);
+  });
+});
+
+describe('budgetExceeded', () => {
+  const totals = { ...createUsageMeter(0).totals(), calls: 10, inputTokens: 2_000_000, outputTokens: 100_000, bridgeSent: 4 };
+
+  it('is null while every cap is unlimited or not reached', () => {
+    expect(budgetExceeded(totals, DEFAULT_USAGE_SETTINGS)).toBeNull();
+    expect(budgetExceeded(totals, { ...DEFAULT_USAGE_SETTINGS, maxCalls: 11 })).toBeNull();
+  });
+
+  it('names the first cap reached', () => {
+    expect(budgetExceeded(totals, { ...DEFAULT_USAGE_SETTINGS, maxCalls: 10 })).toBe("10 of 10 calls used");
+    expect(budgetExceeded(totals, { ...DEFAULT_USAGE_SETTINGS, maxTokens: 1_000_000 })).toBe("2100000 of 1000000 tokens used");
+    expect(budgetExceeded(totals, { ...DEFAULT_USAGE_SETTINGS, maxCostUsd: 0.5 })).toBe("$0.85 of $0.50 spent");
+  });
+
+  it('prices tokens per million and context updates each', () => {
+    expect(estimateCostUsd(totals, { ...DEFAULT_USAGE_SETTINGS, pricePerContextUpdate: 0.01 })).toBeCloseTo(0.6 + 0.25 + 0.04);
+  });
+});
@@ -0,0 +1,129 @@
+import { TokenUsage } from "../types";
+
+export type CallOutcome = 'change' | 'no_change' | 'error';
+
+export interface CallReport {
+  latencyMs: number;
+  outcome: CallOutcome;
+  /** Token counts from the provider's usage metadata, when it reports them. */
+  usage?: TokenUsage;
+  /** For errors: the HTTP status if there was one, otherwise the error code. */
+  errorKey?: string;
+}
+
+export interface UsageTotals {
+  /** Epoch ms when metering started (page load or the last reset). */
+  startedAt: number;
+  calls: number;
+  changes: number;
+  noChange: number;
+  errors: number;
+  errorsByStatus: Record<string, number>;
+  inputTokens: number;
+  outputTokens: number;
+  /** Calls whose provider returned no usage metadata (e.g. the mock). */
+  callsWithoutUsage: number;
+  totalLatencyMs: number;
+  bridgeSent: number;
+  bridgeFailed: number;
+}
+
+/**
+ * Prices and hard caps. Prices are in USD and only drive the estimate;
+ * a cap of 0 means unlimited.
+ */
+export interface UsageSettings {
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  pricePerContextUpdate: number;
+  maxCalls: number;
+  maxTokens: number;
+  maxCostUsd: number;
+}
+
+// Gemini Flash list prices at the time of writing; adjust to your contract.
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  inputPricePerMillion: 0.3,
+  outputPricePerMillion: 2.5,
+  pricePerContextUpdate: 0,
+  maxCalls: 0,
+  maxTokens: 0,
+  maxCostUsd: 0,
+};
+
+const emptyTotals = (now: number): UsageTotals => ({
+  startedAt: now,
+  calls: 0,
+  changes: 0,
+  noChange: 0,
+  errors: 0,
+  errorsByStatus: {},
+  inputTokens: 0,
+  outputTokens: 0,
+  callsWithoutUsage: 0,
+  totalLatencyMs: 0,
+  bridgeSent: 0,
+  bridgeFailed: 0,
+});
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = emptyTotals(0);
+
+/**
+ * Running totals for one metering session: every vision call (loop and
+ * agent tools alike) and every contextual update sent to the voice agent.
+ */
+export const createUsageMeter = (now: number = Date.now()) => {
+  let totals = emptyTotals(now);
+
+  return {
+    recordCall: ({ latencyMs, outcome, usage, errorKey }: CallReport) => {
+      totals = {
+        ...totals,
+        calls: totals.calls + 1,
+        changes: totals.changes + (outcome === 'change' ? 1 : 0),
+        noChange: totals.noChange + (outcome === 'no_change' ? 1 : 0),
+        errors: totals.errors + (outcome === 'error' ? 1 : 0),
+        errorsByStatus: outcome === 'error'
+          ? { ...totals.errorsByStatus, [errorKey ?? 'unknown']: (totals.errorsByStatus[errorKey ?? 'unknown'] ?? 0) + 1 }
+          : totals.errorsByStatus,
+        inputTokens: totals.inputTokens + (usage?.inputTokens ?? 0),
+        outputTokens: totals.outputTokens + (usage?.outputTokens ?? 0),
+        callsWithoutUsage: totals.callsWithoutUsage + (usage ? 0 : 1),
+        totalLatencyMs: totals.totalLatencyMs + latencyMs,
+      };
+    },
+    recordBridge: (ok: boolean) => {
+      totals = ok ? { ...totals, bridgeSent: totals.bridgeSent + 1 } : { ...totals, bridgeFailed: totals.bridgeFailed + 1 };
+    },
+    totals: (): UsageTotals => totals,
+    reset: (at: number = Date.now()) => {
+      totals = emptyTotals(at);
+    },
+  };
+};
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+export const estimateCostUsd = (totals: UsageTotals, settings: UsageSettings): number =>
+  (totals.inputTokens / 1e6) * settings.inputPricePerMillion +
+  (totals.outputTokens / 1e6) * settings.outputPricePerMillion +
+  totals.bridgeSent * settings.pricePerContextUpdate;
+
+/** Share of successful calls that came back NO_CHANGE, 0-1. */
+export const noChangeRatio = (totals: UsageTotals): number => {
+  const answered = totals.changes + totals.noChange;
+  return answered === 0 ? 0 : totals.noChange / answered;
+};
+
+/**
+ * Names the first budget cap that has been reached, or null while the
+ * session is within budget.
+ */
+export const budgetExceeded = (totals: UsageTotals, settings: UsageSettings): string | null => {
+  if (settings.maxCalls > 0 && totals.calls >= settings.maxCalls) return `${totals.calls} of ${settings.maxCalls} calls used`;
+  const tokens = totals.inputTokens + totals.outputTokens;
+  if (settings.maxTokens > 0 && tokens >= settings.maxTokens) return `${tokens} of ${settings.maxTokens} tokens used`;
+  const cost = estimateCostUsd(totals, settings);
+  if (settings.maxCostUsd > 0 && cost >= settings.maxCostUsd) return `$${cost.toFixed(2)} of $${settings.maxCostUsd.toFixed(2)} spent`;
+  return null;
+};
@@ -0,0 +1,24 @@
+import { VisionErrorCode } from "../types";
+
+/**
+ * Raised by vision providers when a request fails.
+ * `status` carries the HTTP status when the failure came from the remote API;
+ * `code` is set explicitly for failures that have no status (e.g. network).
+ */
+export class VisionProviderError extends Error {
+  public readonly status?: number;
+  public readonly code: VisionErrorCode;
+
+  constructor(message: string, status?: number, code?: VisionErrorCode) {
+    super(message);
+    this.name = 'VisionProviderError';
+    this.status = status;
+    this.code = code || classifyStatus(status);
+  }
+}
+
+export const classifyStatus = (status?: number): VisionErrorCode => {
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'unauthorized';
+  return 'unknown';
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { Observation, SceneObservation } from '../types';
+import { analyzeFrame } from './visionService';
+import { createMockProvider } from './mockVisionService';
+import { BUILT_IN_PROFILES } from './promptProfiles';
+import { createSceneMemory, formatRecentObservations } from './sceneMemory';
+import { classifyPriority, createBridgeQueue } from './bridgeQueue';
+import { createTriggerEngine } from './triggers';
+import { createUsageMeter } from './usageMeter';
+import { TriggerRule } from '../types';
+
+const profile = BUILT_IN_PROFILES[0];
+
+const enterRule: TriggerRule = {
+  id: 'enter',
+  name: "Someone enters",
+  enabled: true,
+  matchKind: 'event',
+  values: ['enter'],
+  actions: ['speak', 'alert'],
+  prompt: "{summary}",
+  cooldownMs: 60000,
+};
+
+/**
+ * The vision loop's service pipeline without React: analyze each frame
+ * with the mock provider, then feed scene memory, the bridge queue and
+ * the trigger engine the way App.tsx does.
+ */
+const runLoop = async (frames: string[]) => {
+  const provider = createMockProvider();
+  const memory = createSceneMemory();
+  const queue = createBridgeQueue();
+  const triggers = createTriggerEngine();
+  const meter = createUsageMeter(0);
+  const observations: Observation[] = [];
+  const fired: string[] = [];
+  let previousFrame: string | null = null;
+  let lastDescription: string | null = null;
+
+  for (const [index, frame] of frames.entries()) {
+    const scene = memory.getState();
+    const observation = await analyzeFrame(provider, {
+      currentFrame: frame,
+      previousFrame,
+      lastDescription,
+      sceneSummary: scene.summary || null,
+      recentObservations: formatRecentObservations(scene.recent.slice(0, -1)),
+      profile,
+      meter,
+    });
+    observations.push(observation);
+    previousFrame = frame;
+    if (observation.kind !== 'scene' || !observation.changed) continue;
+
+    lastDescription = observation.summary;
+    memory.record(observation, index * 1000);
+    queue.enqueue({ text: observation.summary, priority: classifyPriority(observation), probe: false }, index * 1000);
+    triggers.due([enterRule], observation, index * 1000).forEach(({ rule, speak }) => {
+      if (!speak) return;
+      fired.push(rule.id);
+      triggers.arm(rule.id, 'speak', index * 1000);
+    });
+  }
+  return { observations, memory, queue, meter, fired };
+};
+
+describe('mock-driven vision loop', () => {
+  it('walks the script on changed frames and reports NO_CHANGE on identical ones', async () => {
+    const { observations } = await runLoop(['a', 'a', 'b', 'c', 'c']);
+    const summaries = observations.map(observation => (observation as SceneObservation).changed ? (observation as SceneObservation).summary : null);
+    expect(summaries).toEqual([
+      "A person sits at a desk facing the camera.",
+      null,
+      "He picks up a mug and drinks.",
+      "He puts the mug back down on the desk.",
+      null,
+    ]);
+  });
+
+  it('meters every call, with the mock reporting no token usage', async () => {
+    const { meter } = await runLoop(['a', 'a', 'b']);
+    expect(meter.totals()).toMatchObject({ calls: 3, changes: 2, noChange: 1, errors: 0, callsWithoutUsage: 3 });
+  });
+
+  it('builds scene memory from reported changes only', async () => {
+    const { memory } = await runLoop(['a', 'a', 'b', 'c']);
+    const state = memory.getState();
+    expect(state.recent).toHaveLength(3);
+    expect(state.presentEntities).toEqual(["person", "desk", "mug"]);
+  });
+
+  it('sends urgent updates first and merges the minor ones', async () => {
+    const { queue } = await runLoop(['a', 'b', 'c', 'd']);
+    // enter is urgent; pickup, put-down and lighting are minor.
+    expect(queue.take(3000)?.text).toBe("A person sits at a desk facing the camera.");
+    const merged = queue.take(3000);
+    expect(merged?.count).toBe(3);
+    expect(merged?.text).toContain("He picks up a mug and drinks. Then: He puts the mug back down on the desk. Then: The lights dim slightly.");
+    expect(queue.take(3000)).toBeNull();
+  });
+
+  it('fires a trigger once per cooldown', async () => {
+    // Five changed frames wrap the four-entry script, so "enter" matches twice within a minute.
+    const { fired } = await runLoop(['a', 'b', 'c', 'd', 'e']);
+    expect(fired).toEqual(['enter']);
+  });
+});
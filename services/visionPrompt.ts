@@ -0,0 +1,109 @@
+import { PromptProfile, VisionRequest } from "../types";
+
+/**
+ * Appended to every profile's instruction so the response can always be
+ * parsed into an Observation, whatever the profile author wrote.
+ */
+export const OBSERVATION_OUTPUT_FORMAT = `
+OUTPUT FORMAT:
+Respond with a single JSON object and nothing else:
+{
+  "changed": boolean,            // false if effectively same state (the NO_CHANGE case)
+  "summary": string,             // <concise_conversational_update>, empty when unchanged
+  "entities": [{ "label": string }],  // subjects/objects involved in the change
+  "eventType": "enter" | "exit" | "pickup" | "put-down" | "lighting" | "other" | null,
+  "confidence": number           // 0.0 - 1.0
+}
+`.trim();
+
+export const composeSystemInstruction = (profile: PromptProfile): string =>
+  [
+    profile.systemInstruction.trim(),
+    profile.sensitivity.trim() && `SENSITIVITY:\n${profile.sensitivity.trim()}`,
+    OBSERVATION_OUTPUT_FORMAT,
+  ].filter(Boolean).join("\n\n");
+
+/**
+ * Provider-neutral prompt building block. Each adapter maps these
+ * onto its own wire format (Gemini parts, OpenAI content blocks, ...).
+ */
+export type PromptSegment =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+/**
+ * Splits a data URL into its raw base64 payload and mime type.
+ */
+export const toImageSegment = (dataUrl: string): PromptSegment => {
+  const match = dataUrl.match(/^data:(image\/[\w+.-]+);base64,/);
+  return {
+    type: 'image',
+    data: dataUrl.replace(/^data:image\/[\w+.-]+;base64,/, ""),
+    mimeType: match ? match[1] : "image/jpeg",
+  };
+};
+
+/**
+ * Builds the ordered prompt shared by every provider:
+ * scene memory and textual context first, then the previous frame,
+ * any in-between frames, then the current frame.
+ */
+export const buildPromptSegments = (request: VisionRequest): PromptSegment[] => {
+  const segments: PromptSegment[] = [];
+
+  // 0. Inject Scene Memory (longer-lived context than the last description)
+  if (request.sceneSummary) {
+    segments.push({ type: 'text', text: `SCENE SUMMARY (what is known so far): ${request.sceneSummary}` });
+  }
+  if (request.recentObservations.length > 0) {
+    segments.push({ type: 'text', text: `RECENT OBSERVATIONS (oldest first):\n${request.recentObservations.join("\n")}` });
+  }
+
+  // 0b. Grounding from the on-device detector
+  if (request.detectedObjects.length > 0) {
+    segments.push({
+      type: 'text',
+      text: `LOCAL OBJECT DETECTOR (on-device, current frame; labels and track ids are reliable, it may miss things it has no class for):\n${request.detectedObjects.join("\n")}`,
+    });
+  }
+
+  // 1. Inject Textual Context (The conversation history of what was already seen)
+  if (request.lastDescription) {
+    segments.push({ type: 'text', text: `PREVIOUS DESCRIPTION (Context established): "${request.lastDescription}"` });
+  } else {
+    segments.push({ type: 'text', text: "PREVIOUS DESCRIPTION: None (First observation. Describe the scene briefly.)" });
+  }
+
+  // 2. Inject Visual Context
+  if (request.previousFrame) {
+    segments.push({ type: 'text', text: "Previous Visual Frame:" });
+    segments.push(toImageSegment(request.previousFrame));
+  }
+
+  // 2b. Frames captured in between, so short actions are not lost
+  if (request.burst && request.burst.images.length > 0) {
+    const { layout, images } = request.burst;
+    segments.push({
+      type: 'text',
+      text: layout === 'contact-sheet'
+        ? `Contact sheet of frames captured between the previous and the current frame (${images[0].label}, times relative to now). Report actions visible in it even if the current frame looks unchanged:`
+        : `${images.length} frames captured between the previous and the current frame, oldest first. Report actions visible in them even if the current frame looks unchanged:`,
+    });
+    images.forEach(image => {
+      if (layout === 'frames') segments.push({ type: 'text', text: `Frame at ${image.label}:` });
+      segments.push(toImageSegment(image.image));
+    });
+  }
+
+  // 3. Inject Current Reality
+  segments.push({ type: 'text', text: "Current Visual Frame (Analyze change relative to context):" });
+  segments.push(toImageSegment(request.currentFrame));
+
+  // 4. Optional higher-detail crops of user-defined regions
+  request.regionCrops.forEach(crop => {
+    segments.push({ type: 'text', text: `Region of interest "${crop.label}" (detail crop of the current frame):` });
+    segments.push(toImageSegment(crop.image));
+  });
+
+  return segments;
+};
@@ -0,0 +1,123 @@
+import { FrameBurst, LabeledImage, Observation, PromptProfile, VisionProvider, VisionProviderId } from "../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openAICompatibleService";
+import { createMockProvider } from "./mockVisionService";
+import { createProxyProvider } from "./proxyService";
+import { composeSystemInstruction } from "./visionPrompt";
+import { parseObservation, toObservationError } from "./observation";
+import { AppConfig } from "./configStore";
+import { Credentials } from "./credentials";
+import { UsageMeter } from "./usageMeter";
+
+export interface VisionProviderConfig {
+  provider: VisionProviderId;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+/**
+ * Combines the vision section of the config store with the resolved
+ * credentials into what the provider factory needs.
+ */
+export const resolveVisionProviderConfig = (vision: AppConfig['vision'], credentials: Credentials): VisionProviderConfig => {
+  switch (vision.provider) {
+    case 'gemini':
+      return { provider: 'gemini', apiKey: credentials.geminiApiKey, model: vision.model || undefined };
+    case 'proxy':
+      return { provider: 'proxy', baseUrl: vision.proxyUrl, model: vision.model || undefined };
+    case 'openai-compatible':
+      return { provider: 'openai-compatible', apiKey: credentials.visionApiKey, baseUrl: vision.baseUrl, model: vision.model };
+    default:
+      return { provider: vision.provider };
+  }
+};
+
+export const createVisionProvider = (config: VisionProviderConfig): VisionProvider => {
+  switch (config.provider) {
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) {
+        throw new Error("OpenAI-compatible provider requires a base URL and a model.");
+      }
+      return createOpenAICompatibleProvider({ baseUrl: config.baseUrl, model: config.model, apiKey: config.apiKey });
+    case 'proxy':
+      if (!config.baseUrl) {
+        throw new Error("Proxy provider requires a proxy URL.");
+      }
+      return createProxyProvider({ baseUrl: config.baseUrl, model: config.model });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+      if (!config.apiKey) {
+        throw new Error("Gemini provider requires an API key.");
+      }
+      return createGeminiProvider({ apiKey: config.apiKey, model: config.model || DEFAULT_GEMINI_MODEL });
+    default:
+      throw new Error(`Unknown vision provider: ${config.provider}`);
+  }
+};
+
+export interface AnalyzeFrameInput {
+  currentFrame: string;
+  previousFrame: string | null;
+  lastDescription: string | null;
+  sceneSummary?: string | null;
+  recentObservations?: string[];
+  regionCrops?: LabeledImage[];
+  burst?: FrameBurst | null;
+  /** Grounding lines from the local object tracker. */
+  detectedObjects?: string[];
+  profile: PromptProfile;
+  /** Extra instruction appended for this call only (probe mode, on-demand agent requests). */
+  extraInstruction?: string | null;
+  /** Receives calls, latency, token usage and outcome of this call. */
+  meter?: UsageMeter;
+}
+
+/**
+ * Runs one describe-diff cycle against the given provider.
+ * Accepts lastDescription to ensure conversational continuity.
+ * Never throws: failures come back as an `error` observation.
+ */
+export const analyzeFrame = async (
+  provider: VisionProvider,
+  { currentFrame, previousFrame, lastDescription, sceneSummary = null, recentObservations = [], regionCrops = [], burst = null, detectedObjects = [], profile, extraInstruction, meter }: AnalyzeFrameInput
+): Promise<Observation> => {
+  let currentSystemInstruction = composeSystemInstruction(profile);
+  if (extraInstruction) {
+      currentSystemInstruction += `\n\n${extraInstruction}`;
+  }
+
+  const startedAt = performance.now();
+  try {
+    const response = await provider.describeDiff({
+      currentFrame,
+      previousFrame,
+      lastDescription,
+      sceneSummary,
+      recentObservations,
+      regionCrops,
+      burst,
+      detectedObjects,
+      systemInstruction: currentSystemInstruction,
+      temperature: profile.temperature,
+      maxOutputTokens: profile.maxOutputTokens,
+    });
+    const observation = parseObservation(response.text);
+    meter?.recordCall({
+      latencyMs: performance.now() - startedAt,
+      outcome: observation.kind === 'error' ? 'error' : observation.changed ? 'change' : 'no_change',
+      usage: response.usage,
+      errorKey: observation.kind === 'error' ? observation.code : undefined,
+    });
+    return observation;
+  } catch (error: any) {
+    const observation = toObservationError(error);
+    meter?.recordCall({
+      latencyMs: performance.now() - startedAt,
+      outcome: 'error',
+      errorKey: observation.status ? `HTTP ${observation.status}` : observation.code,
+    });
+    return observation;
+  }
+};
@@ -1,10 +1,51 @@
 export interface LogEntry {
   id: string;
   timestamp: Date;
-  type: 'info' | 'success' | 'error' | 'visual' | 'bridge';
+  type: 'info' | 'success' | 'error' | 'visual' | 'bridge' | 'alert';
   message: string;
+  observation?: SceneObservation;
+  /** Set when the entry stems from a deliberate probe-mode injection. */
+  probe?: boolean;
+  /** Name of the agent client tool that produced the entry, if any. */
+  tool?: string;
+  /** Set when the entry comes from the on-device object tracker rather than the vision model. */
+  local?: boolean;
+  /** Name of the camera the entry is about, once more than one camera is set up. */
+  camera?: string;
+  /** Thumbnails of what the model was shown, for visual entries. */
+  frames?: FrameThumbnails;
 }
 
+export interface FrameThumbnails {
+  /** The frame (or crop) the description is about. */
+  current: string;
+  /** The previously analyzed frame, when before/after pairs are kept. */
+  previous?: string;
+}
+
+export type TranscriptRole = 'user' | 'agent';
+
+/**
+ * One finalized utterance from the voice session.
+ */
+export interface TranscriptMessage {
+  id: string;
+  timestamp: Date;
+  role: TranscriptRole;
+  text: string;
+  /**
+   * Contextual updates injected since the agent's previous reply, i.e. the
+   * visual context the agent had received when it said this. Always empty
+   * for user messages.
+   */
+  context: string[];
+}
+
+/** Logs and transcript merged into one time-ordered stream for the Terminal. */
+export type TimelineItem =
+  | { kind: 'log'; timestamp: Date; entry: LogEntry }
+  | { kind: 'transcript'; timestamp: Date; message: TranscriptMessage };
+
 export enum ProcessingState {
   IDLE = 'IDLE',
   CAPTURING = 'CAPTURING',
@@ -16,4 +57,195 @@ export enum ConnectionStatus {
   DISCONNECTED = 'Disconnected',
   CONNECTING = 'Connecting',
   CONNECTED = 'Connected'
-}
\ No newline at end of file
+}
+
+/**
+ * A single describe-diff request handed to a vision provider.
+ * Frames are data URLs as produced by LiveFeedHandle.getSnapshot.
+ */
+export interface VisionRequest {
+  currentFrame: string;
+  previousFrame: string | null;
+  lastDescription: string | null;
+  /** Compacted description of the scene so far, from scene memory. */
+  sceneSummary: string | null;
+  /** Recent observations, oldest first, already formatted for the prompt. */
+  recentObservations: string[];
+  /** Higher-detail crops of the current frame, one per labeled region of interest. */
+  regionCrops: LabeledImage[];
+  /** Frames captured between the previous and the current frame, if enabled. */
+  burst: FrameBurst | null;
+  /** Objects the on-device detector currently tracks, one formatted line each. */
+  detectedObjects: string[];
+  systemInstruction: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+export interface LabeledImage {
+  label: string;
+  /** Data URL. */
+  image: string;
+}
+
+/**
+ * Intermediate frames, oldest first: either one image per frame or a
+ * single tiled contact sheet.
+ */
+export interface FrameBurst {
+  layout: 'frames' | 'contact-sheet';
+  images: LabeledImage[];
+}
+
+export type ObservationEventType = 'enter' | 'exit' | 'pickup' | 'put-down' | 'lighting' | 'other';
+
+export interface ObservedEntity {
+  label: string;
+}
+
+/**
+ * What the vision model reported for one describe-diff cycle.
+ */
+export interface SceneObservation {
+  kind: 'scene';
+  changed: boolean;
+  summary: string;
+  entities: ObservedEntity[];
+  eventType: ObservationEventType | null;
+  /** Model's self-reported confidence, 0-1. */
+  confidence: number;
+}
+
+export type VisionErrorCode = 'rate_limited' | 'unauthorized' | 'network' | 'invalid_response' | 'unknown';
+
+export interface ObservationError {
+  kind: 'error';
+  code: VisionErrorCode;
+  message: string;
+  status?: number;
+}
+
+export type Observation = SceneObservation | ObservationError;
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface VisionResponse {
+  text: string;
+  /** Billed tokens, when the provider reports usage metadata. */
+  usage?: TokenUsage;
+}
+
+export type VisionProviderId = 'gemini' | 'openai-compatible' | 'proxy' | 'mock';
+
+/**
+ * Adapter contract for anything that can compare two frames.
+ * Implementations throw VisionProviderError on transport/auth failures.
+ */
+export interface VisionProvider {
+  readonly id: VisionProviderId;
+  readonly label: string;
+  describeDiff: (request: VisionRequest) => Promise<VisionResponse>;
+}
+
+export interface RecordedSession {
+  id: string;
+  label: string;
+  startedAt: number;
+  endedAt: number | null;
+  frameCount: number;
+}
+
+/**
+ * One entry in a recorded session. Frames are stored once and referenced
+ * by `frameId` from the analysis events that used them.
+ */
+export type RecordedEvent = {
+  sessionId: string;
+  seq: number;
+  timestamp: number;
+} & (
+  | { kind: 'frame'; frameId: string; image: string }
+  | {
+      kind: 'analysis';
+      frameId: string;
+      previousFrameId: string | null;
+      lastDescription: string | null;
+      providerId: VisionProviderId;
+      profileId: string;
+      probe: boolean;
+      observation: Observation;
+      latencyMs: number;
+    }
+  | { kind: 'bridge'; payload: string; ok: boolean }
+);
+
+/**
+ * Where LiveFeed pulls its frames from.
+ */
+export type FeedSource =
+  | { kind: 'camera'; deviceId: string | null; label: string }
+  | { kind: 'screen'; label: string }
+  | { kind: 'video'; file: File; label: string }
+  | { kind: 'images'; files: File[]; frameDurationMs: number; label: string };
+
+/**
+ * A named "visual cortex" configuration. The system instruction and
+ * sensitivity guidance are combined with the fixed output format at
+ * request time, so profiles never have to restate the JSON schema.
+ */
+export interface PromptProfile {
+  id: string;
+  name: string;
+  systemInstruction: string;
+  sensitivity: string;
+  temperature: number;
+  maxOutputTokens: number;
+  builtIn: boolean;
+}
+
+export type TriggerMatchKind = 'keyword' | 'entity' | 'event';
+
+export type TriggerAction = 'speak' | 'chime' | 'alert';
+
+/**
+ * "When an observation matches, do something." A rule matches when any of
+ * `values` is found in the summary (keyword), the entity labels (entity),
+ * or equals the event type (event).
+ */
+export interface TriggerRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  matchKind: TriggerMatchKind;
+  values: string[];
+  actions: TriggerAction[];
+  /** Sent as a user message for the `speak` action. `{summary}` is replaced with the observation. */
+  prompt: string;
+  /** Minimum time between two firings of the same rule. */
+  cooldownMs: number;
+}
+
+/** Fractional frame rectangle, all values in 0..1. */
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A user-drawn area of the frame. `include` regions restrict change
+ * detection (and may be sent as labeled crops); `exclude` regions are
+ * blacked out before diffing and before anything is sent; `private`
+ * regions still count for change detection but are redacted by the
+ * privacy filter before upload.
+ */
+export interface RegionOfInterest {
+  id: string;
+  label: string;
+  kind: 'include' | 'exclude' | 'private';
+  rect: FrameRegion;
+}
@@ -11,7 +11,14 @@ export default defineConfig(({ mode }) => {
       // Inject specific env vars as string replacements
       'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY || ''),
       'process.env.AGENT_ID': JSON.stringify(env.AGENT_ID || ''),
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || '')
+      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || ''),
+      // Vision provider selection: 'gemini' (default), 'openai-compatible' or 'mock'
+      'process.env.VISION_PROVIDER': JSON.stringify(env.VISION_PROVIDER || ''),
+      'process.env.VISION_BASE_URL': JSON.stringify(env.VISION_BASE_URL || ''),
+      'process.env.VISION_MODEL': JSON.stringify(env.VISION_MODEL || ''),
+      'process.env.VISION_API_KEY': JSON.stringify(env.VISION_API_KEY || ''),
+      // Backend proxy (server/index.js). When set, keys stay on the server.
+      'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL || '')
     }
   };
 });
\ No newline at end of file